@@ -1,19 +1,47 @@
-import { App, Plugin, PluginSettingTab, Setting, Notice, Modal, Component } from 'obsidian';
-import { PluginSettings, DEFAULT_SETTINGS, OpenSanctionsEntity, SearchParams, SearchResponse, EnrichedEntity, ImportMode } from './src/types';
+import { App, Plugin, PluginSettingTab, Setting, Notice, Modal, Component, TFile, TextComponent, WorkspaceLeaf } from 'obsidian';
+import { PluginSettings, DEFAULT_SETTINGS, OpenSanctionsEntity, SearchParams, SearchResponse, EnrichedEntity, ImportMode, AuthScheme, CollisionStrategy, FolderRule, TemplateRule } from './src/types';
 import { OpenSanctionsApiClient } from './src/api-client';
 import { SearchModal } from './src/search-modal';
 import { FieldConfigModal } from './src/field-config-modal';
-import { NoteGenerator } from './src/note-generator';
+import { NoteGenerator, STUB_FLAG_KEY, TemplateWarning } from './src/note-generator';
+import { EntityIndex } from './src/entity-index';
+import { FILENAME_TOKENS } from './src/filename';
+import { debounce } from './src/utils';
+import { FOLDER_TOKENS, createEmptyConditions, describeRuleConditions } from './src/entity-rules';
+import { EntityRuleModal } from './src/entity-rule-modal';
+import { NoteSuggestModal, getTemplateFiles } from './src/note-suggest-modal';
+import { PreviewModal } from './src/preview-modal';
+import { ScreeningModal } from './src/screening-modal';
+import { BatchScreeningModal } from './src/batch-screening-modal';
+import { ResponseCache } from './src/response-cache';
+import { NetworkImportModal } from './src/network-import-modal';
+import { CanvasExportModal } from './src/canvas-export-modal';
+import { CanvasExporter, CanvasOptions } from './src/canvas-exporter';
+import { EntityGraphView, VIEW_TYPE_ENTITY_GRAPH } from './src/entity-graph-view';
+import { UboAnalyzer, renderUboSection, upsertUboSection } from './src/ubo-analyzer';
+import { buildQueryFromFrontmatter, renderScreeningBlock, upsertScreeningBlock } from './src/screening';
 
 export default class OpenSanctionsPlugin extends Plugin {
 	settings: PluginSettings;
 	apiClient: OpenSanctionsApiClient;
+	entityIndex: EntityIndex;
+	responseCache: ResponseCache;
 
 	async onload() {
 		await this.loadSettings();
 
 		// Initialize API client
-		this.apiClient = new OpenSanctionsApiClient(this.settings.apiKey);
+		this.apiClient = new OpenSanctionsApiClient(this.settings.apiKey, this.settings.retrySettings, this.settings.connectionSettings);
+
+		// Persistent cache for entity and adjacency responses, kept in the plugin folder
+		const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		this.responseCache = new ResponseCache(this.app.vault.adapter, pluginDir, this.settings.cacheSettings);
+		await this.responseCache.load();
+		this.apiClient.setCache(this.responseCache);
+
+		// Index existing notes by opensanctions_id for deduplication
+		this.entityIndex = new EntityIndex(this.app);
+		this.entityIndex.register(this);
 
 		// Add standard search ribbon icon
 		const ribbonIconEl = this.addRibbonIcon('search', 'Search OpenSanctions', (evt: MouseEvent) => {
@@ -21,6 +49,21 @@ export default class OpenSanctionsPlugin extends Plugin {
 		});
 		ribbonIconEl.addClass('opensanctions-ribbon-class');
 
+		// Side panel graph of the current entity's neighbourhood
+		this.registerView(VIEW_TYPE_ENTITY_GRAPH, (leaf) => {
+			const view = new EntityGraphView(leaf, this.apiClient, this.entityIndex);
+			view.setHandler(this, (entity: OpenSanctionsEntity) => this.handleEntitySelection([entity]));
+			return view;
+		});
+
+		// Keep an open graph panel on the entity of the active note
+		this.registerEvent(this.app.workspace.on('file-open', (file) => {
+			const entityId = file ? this.getEntityIdForFile(file) : null;
+			if (entityId) {
+				this.getEntityGraphView()?.showEntity(entityId);
+			}
+		}));
+
 		// Add Quick Import ribbon button (always add it for now)
 		const quickImportRibbon = this.addRibbonIcon('zap', 'Quick Import OpenSanctions', (evt: MouseEvent) => {
 			this.openQuickImportModal();
@@ -44,39 +87,222 @@ export default class OpenSanctionsPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'screen-entity-opensanctions',
+			name: 'Screen entity against OpenSanctions',
+			callback: () => {
+				this.openScreeningModal();
+			}
+		});
+
+		this.addCommand({
+			id: 'screen-active-note-opensanctions',
+			name: 'Screen current note against OpenSanctions',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md') return false;
+
+				if (!checking) {
+					this.screenNote(file);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'batch-screen-opensanctions',
+			name: 'Batch screen counterparties (CSV or table)',
+			callback: () => {
+				this.openBatchScreeningModal();
+			}
+		});
+
+		this.addCommand({
+			id: 'refresh-opensanctions-note',
+			name: 'Refresh from OpenSanctions',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				const entityId = file ? this.getEntityIdForFile(file) : null;
+				if (!file || !entityId) return false;
+
+				if (!checking) {
+					this.refreshNote(file, entityId);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'import-network-opensanctions',
+			name: 'Import network around current note',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				const entityId = file ? this.getEntityIdForFile(file) : null;
+				if (!file || !entityId) return false;
+
+				if (!checking) {
+					this.openNetworkImportModal({ id: entityId, caption: file.basename });
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'upgrade-stub-opensanctions',
+			name: 'Upgrade stub to full import',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				const entityId = file ? this.getEntityIdForFile(file) : null;
+				if (!file || !entityId || !this.isStubNote(file)) return false;
+
+				if (!checking) {
+					this.upgradeStub(file, entityId);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'analyze-ownership-opensanctions',
+			name: 'Analyze beneficial ownership of current note',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				const entityId = file ? this.getEntityIdForFile(file) : null;
+				if (!file || !entityId) return false;
+
+				if (!checking) {
+					this.analyzeOwnership(file, entityId);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'export-canvas-opensanctions',
+			name: 'Export network of current note to canvas',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				const entityId = file ? this.getEntityIdForFile(file) : null;
+				if (!file || !entityId) return false;
+
+				if (!checking) {
+					const modal = new CanvasExportModal(this.app, this.settings, file.basename);
+					modal.setHandler(this, (options: CanvasOptions) => this.exportCanvas(file, entityId, options));
+					modal.open();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'test-template-opensanctions',
+			name: 'Test template against entity',
+			checkCallback: (checking: boolean) => {
+				// Run from the template being edited
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md' || this.getEntityIdForFile(file)) return false;
+
+				if (!checking) {
+					this.testTemplate(file);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'open-entity-graph-opensanctions',
+			name: 'Open entity graph for current note',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				const entityId = file ? this.getEntityIdForFile(file) : null;
+				if (!file || !entityId) return false;
+
+				if (!checking) {
+					this.openEntityGraph(entityId);
+				}
+				return true;
+			}
+		});
+
 		// Add settings tab
 		this.addSettingTab(new OpenSanctionsSettingTab(this.app, this));
 
 		// Status notice
-		if (!this.settings.apiKey) {
-			new Notice('OpenSanctions: Please set your API key in plugin settings');
+		if (!this.hasCredentials()) {
+			new Notice(`OpenSanctions: ${this.getMissingCredentialsMessage()}`);
 		}
 	}
 
 	onunload() {
-		// Cleanup if needed
+		// Flush any pending cache writes
+		this.responseCache?.save().catch(error => console.error(error));
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// Copy the defaults so editing settings never changes DEFAULT_SETTINGS itself
+		const defaults: PluginSettings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+		const loaded: Partial<PluginSettings> = (await this.loadData()) || {};
+
+		// Nested objects are merged key by key, so keys added since the settings were saved get their defaults
+		this.settings = {
+			...defaults,
+			...loaded,
+			connectionSettings: { ...defaults.connectionSettings, ...loaded.connectionSettings },
+			filenameSettings: { ...defaults.filenameSettings, ...loaded.filenameSettings },
+			quickImportSettings: { ...defaults.quickImportSettings, ...loaded.quickImportSettings },
+			retrySettings: { ...defaults.retrySettings, ...loaded.retrySettings },
+			cacheSettings: { ...defaults.cacheSettings, ...loaded.cacheSettings },
+			networkImportSettings: { ...defaults.networkImportSettings, ...loaded.networkImportSettings }
+		};
+	}
+
+	/**
+	 * Whether the configured auth scheme has what it needs to make requests
+	 */
+	hasCredentials(): boolean {
+		const connection = this.settings.connectionSettings;
+		switch (connection.authScheme) {
+			case AuthScheme.NONE:
+				return true;
+			case AuthScheme.HEADER:
+				return !!(connection.authHeaderName && connection.authHeaderValue);
+			default:
+				return !!this.settings.apiKey;
+		}
+	}
+
+	/**
+	 * What to set up before requests can be made, worded for the configured auth scheme
+	 */
+	getMissingCredentialsMessage(): string {
+		if (this.settings.connectionSettings.authScheme === AuthScheme.HEADER) {
+			return 'Please set the auth header name and value in plugin settings first';
+		}
+		return 'Please set your OpenSanctions API key in plugin settings first';
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
-		// Update API client key if changed
+		// Update API client key and retry behaviour if changed
 		if (this.apiClient) {
 			this.apiClient.updateApiKey(this.settings.apiKey);
+			this.apiClient.updateRetrySettings(this.settings.retrySettings);
+			this.apiClient.updateConnectionSettings(this.settings.connectionSettings);
+		}
+		if (this.responseCache) {
+			this.responseCache.updateSettings(this.settings.cacheSettings);
 		}
 	}
 
 	openSearchModal() {
-		if (!this.settings.apiKey) {
-			new Notice('Please set your OpenSanctions API key in plugin settings first');
+		if (!this.hasCredentials()) {
+			new Notice(this.getMissingCredentialsMessage());
 			return;
 		}
 
-		const modal = new SearchModal(this.app, this.apiClient, this.settings, ImportMode.STANDARD);
+		const modal = new SearchModal(this.app, this.apiClient, this.settings, this.entityIndex, ImportMode.STANDARD);
 		modal.setHandler(this, this.handleEntitySelection);
+		modal.setNetworkHandler(this, this.openNetworkImportModal);
 		modal.open();
 	}
 
@@ -86,41 +312,371 @@ export default class OpenSanctionsPlugin extends Plugin {
 			return;
 		}
 
-		if (!this.settings.apiKey) {
-			new Notice('Please set your OpenSanctions API key in plugin settings first');
+		if (!this.hasCredentials()) {
+			new Notice(this.getMissingCredentialsMessage());
 			return;
 		}
 
-		const modal = new SearchModal(this.app, this.apiClient, this.settings, ImportMode.QUICK);
+		const modal = new SearchModal(this.app, this.apiClient, this.settings, this.entityIndex, ImportMode.QUICK);
 		modal.setHandler(this, this.handleEntitySelection);
 		modal.open();
 	}
 
+	openScreeningModal() {
+		if (!this.hasCredentials()) {
+			new Notice(this.getMissingCredentialsMessage());
+			return;
+		}
+
+		const modal = new ScreeningModal(this.app, this.apiClient, this.settings);
+		modal.setHandler(this, this.handleEntitySelection);
+		modal.open();
+	}
+
+	openBatchScreeningModal() {
+		if (!this.hasCredentials()) {
+			new Notice(this.getMissingCredentialsMessage());
+			return;
+		}
+
+		const modal = new BatchScreeningModal(this.app, this.apiClient, this.settings, this.app.workspace.getActiveFile());
+		modal.setHandler(this, this.handleEntitySelection);
+		modal.open();
+	}
+
+	openNetworkImportModal(seed: Pick<OpenSanctionsEntity, 'id' | 'caption'>) {
+		if (!this.hasCredentials()) {
+			new Notice(this.getMissingCredentialsMessage());
+			return;
+		}
+
+		const modal = new NetworkImportModal(this.app, this.apiClient, this.settings, this.entityIndex, seed);
+		modal.setHandler(this, this.handleNetworkImport);
+		modal.open();
+	}
+
+	/**
+	 * Screen a note's frontmatter against /match and record the result in the note
+	 */
+	async screenNote(file: TFile) {
+		if (!this.hasCredentials()) {
+			new Notice(this.getMissingCredentialsMessage());
+			return;
+		}
+
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+		const query = buildQueryFromFrontmatter(frontmatter, file.basename, this.settings.fieldConfigs);
+
+		try {
+			new Notice(`Screening ${file.basename}...`);
+			const results = await this.apiClient.match(query, {
+				threshold: this.settings.screeningThreshold
+			});
+
+			// Link to the note the best match already has, or the one it would be imported as
+			const best = results[0];
+			let linkTarget: string | null = null;
+			if (best) {
+				const noteGenerator = new NoteGenerator(this.app, this.settings, this.entityIndex);
+				const existingNote = noteGenerator.findExistingNote(best);
+				linkTarget = existingNote ? existingNote.basename : noteGenerator.generateFilename(best).replace(/\.md$/, '');
+			}
+
+			const block = renderScreeningBlock(results, this.settings.screeningThreshold, linkTarget);
+			const content = await this.app.vault.read(file);
+			await this.app.vault.modify(file, upsertScreeningBlock(content, block));
+
+			if (best && best.score >= this.settings.screeningThreshold) {
+				new Notice(`Possible match for ${file.basename}: ${best.caption}`);
+
+				// Offer to import the matched entities
+				const modal = new ScreeningModal(this.app, this.apiClient, this.settings);
+				modal.setInitialState(query, results);
+				modal.setHandler(this, this.handleEntitySelection);
+				modal.open();
+			} else {
+				new Notice(`No match above threshold for ${file.basename}`);
+			}
+		} catch (error) {
+			console.error('Error screening note:', file.path, error);
+			new Notice(`Error screening ${file.basename}: ${error.message}`);
+		}
+	}
+
 	async handleEntitySelection(selectedEntities: OpenSanctionsEntity[]) {
-		const noteGenerator = new NoteGenerator(this.app, this.settings);
+		const noteGenerator = new NoteGenerator(this.app, this.settings, this.entityIndex);
 
 		for (const entity of selectedEntities) {
 			try {
 				// Fetch full entity details with relationships
 				const enrichedEntity = await this.apiClient.fetchWithRelationships(entity.id);
 
-				// Generate note
+				// Generate note, updating an existing note for the same entity if there is one
+				const existingNote = noteGenerator.findExistingNote(enrichedEntity);
 				await noteGenerator.generateNote(enrichedEntity);
 
-				new Notice(`Created note: ${entity.caption}`);
+				if (this.settings.createStubNotes) {
+					await noteGenerator.createStubNotes(enrichedEntity);
+				}
+
+				if (existingNote) {
+					new Notice(`Updated existing note: ${existingNote.basename}`);
+				} else {
+					new Notice(`Created note: ${entity.caption}`);
+				}
 			} catch (error) {
 				console.error('Error creating note for entity:', entity.caption, error);
 				new Notice(`Error creating note for ${entity.caption}: ${error.message}`);
 			}
 		}
 
+		this.reportTemplateWarnings(noteGenerator.takeTemplateWarnings());
+
 		// Save settings to persist any config usage tracking changes
 		await this.saveSettings();
 	}
+
+	/**
+	 * Create or update a note for every entity in a crawled network, with a single progress notice
+	 */
+	async handleNetworkImport(entities: OpenSanctionsEntity[]) {
+		const noteGenerator = new NoteGenerator(this.app, this.settings, this.entityIndex);
+		const progress = new Notice(`Importing network: 0 of ${entities.length}...`, 0);
+		let created = 0;
+		let updated = 0;
+		let failed = 0;
+
+		for (const entity of entities) {
+			try {
+				const enrichedEntity = await this.apiClient.fetchWithRelationships(entity.id);
+				const existingNote = noteGenerator.findExistingNote(enrichedEntity);
+				await noteGenerator.generateNote(enrichedEntity);
+
+				// Stubs for entities later in the network are upgraded when their turn comes
+				if (this.settings.createStubNotes) {
+					await noteGenerator.createStubNotes(enrichedEntity);
+				}
+
+				if (existingNote) {
+					updated++;
+				} else {
+					created++;
+				}
+			} catch (error) {
+				console.error('Error creating note for network entity:', entity.caption, error);
+				failed++;
+			}
+
+			progress.setMessage(`Importing network: ${created + updated + failed} of ${entities.length}...`);
+		}
+
+		progress.hide();
+		const failures = failed > 0 ? `, ${failed} failed (see console)` : '';
+		new Notice(`Network import complete: ${created} created, ${updated} updated${failures}`);
+		this.reportTemplateWarnings(noteGenerator.takeTemplateWarnings());
+
+		await this.saveSettings();
+	}
+
+	/**
+	 * Render a template against an imported entity of the user's choice and show the result in the preview
+	 */
+	testTemplate(template: TFile) {
+		if (!this.hasCredentials()) {
+			new Notice(this.getMissingCredentialsMessage());
+			return;
+		}
+
+		const entityNotes = this.app.vault.getMarkdownFiles().filter(file => this.getEntityIdForFile(file));
+		if (entityNotes.length === 0) {
+			new Notice('Import an entity first to test templates against it');
+			return;
+		}
+
+		new NoteSuggestModal(this.app, entityNotes, 'Choose an imported entity to render the template with', async (note) => {
+			try {
+				const entity = await this.apiClient.fetchWithRelationships(this.getEntityIdForFile(note)!);
+				new PreviewModal(this.app, entity, this.settings, this.entityIndex, template.path).open();
+			} catch (error) {
+				console.error('Error loading entity for template test:', note.path, error);
+				new Notice(`Error loading ${note.basename}: ${error.message}`);
+			}
+		}).open();
+	}
+
+	/**
+	 * Tell the user which templates failed during an import and why. Failed notes got the default body.
+	 */
+	reportTemplateWarnings(warnings: TemplateWarning[]) {
+		if (warnings.length === 0) return;
+
+		// One line per template and problem, however many notes it affected
+		const problems = new Map<string, string[]>();
+		for (const warning of warnings) {
+			const problem = `${warning.templatePath}: ${warning.message}`;
+			problems.set(problem, [...(problems.get(problem) || []), warning.entityCaption]);
+		}
+
+		const lines = Array.from(problems.entries()).map(([problem, captions]) =>
+			`• ${problem} (${captions.length === 1 ? captions[0] : `${captions.length} notes`})`);
+		new Notice(`Template failed, default note body used instead:\n${lines.join('\n')}`, 15000);
+	}
+
+	getEntityIdForFile(file: TFile): string | null {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const entityId = frontmatter?.opensanctions_id;
+		return entityId ? String(entityId) : null;
+	}
+
+	async refreshNote(file: TFile, entityId: string) {
+		if (!this.hasCredentials()) {
+			new Notice(this.getMissingCredentialsMessage());
+			return;
+		}
+
+		const noteGenerator = new NoteGenerator(this.app, this.settings, this.entityIndex);
+
+		try {
+			new Notice(`Refreshing ${file.basename} from OpenSanctions...`);
+			const enrichedEntity = await this.apiClient.fetchWithRelationships(entityId);
+			await noteGenerator.refreshNote(file, enrichedEntity);
+			if (this.settings.createStubNotes) {
+				await noteGenerator.createStubNotes(enrichedEntity);
+			}
+			new Notice(`Refreshed note: ${file.basename}`);
+			this.reportTemplateWarnings(noteGenerator.takeTemplateWarnings());
+		} catch (error) {
+			console.error('Error refreshing note:', file.path, error);
+			new Notice(`Error refreshing ${file.basename}: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Resolve the ultimate beneficial owners of the note's entity and write a UBO section into the note
+	 */
+	async analyzeOwnership(file: TFile, entityId: string) {
+		if (!this.hasCredentials()) {
+			new Notice(this.getMissingCredentialsMessage());
+			return;
+		}
+
+		const progress = new Notice(`Analyzing ownership of ${file.basename}...`, 0);
+
+		try {
+			const analyzer = new UboAnalyzer(this.apiClient);
+			const result = await analyzer.analyze(entityId, (visited) => {
+				progress.setMessage(`Analyzing ownership of ${file.basename}: ${visited} entities...`);
+			});
+
+			const content = await this.app.vault.read(file);
+			const noteGenerator = new NoteGenerator(this.app, this.settings, this.entityIndex);
+			const section = renderUboSection(result, node => noteGenerator.linkToEntity(node));
+			await this.app.vault.modify(file, upsertUboSection(content, section));
+
+			progress.hide();
+			const flags: string[] = [];
+			if (Array.from(result.nodes.values()).some(node => node.sanctioned && node.id !== entityId)) {
+				flags.push('sanctioned owners found');
+			}
+			if (result.cycles.length > 0) {
+				flags.push('circular ownership found');
+			}
+			const suffix = flags.length > 0 ? ` (${flags.join(', ')})` : '';
+			new Notice(`${result.owners.length} ultimate owner${result.owners.length === 1 ? '' : 's'} found for ${file.basename}${suffix}`);
+		} catch (error) {
+			progress.hide();
+			console.error('Error analyzing ownership:', file.path, error);
+			new Notice(`Error analyzing ownership of ${file.basename}: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Reveal the entity graph panel in the right sidebar and show an entity in it
+	 */
+	async openEntityGraph(entityId: string) {
+		let leaf: WorkspaceLeaf | null = this.app.workspace.getLeavesOfType(VIEW_TYPE_ENTITY_GRAPH)[0] || null;
+		if (!leaf) {
+			leaf = this.app.workspace.getRightLeaf(false);
+			if (!leaf) return;
+			await leaf.setViewState({ type: VIEW_TYPE_ENTITY_GRAPH, active: true });
+		}
+
+		// Revealing also loads a deferred view
+		await this.app.workspace.revealLeaf(leaf);
+		if (leaf.view instanceof EntityGraphView) {
+			await leaf.view.showEntity(entityId);
+		}
+	}
+
+	private getEntityGraphView(): EntityGraphView | null {
+		const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_ENTITY_GRAPH)[0];
+		return leaf && leaf.view instanceof EntityGraphView ? leaf.view : null;
+	}
+
+	/**
+	 * Write a canvas of the note's entity and its network, then open it
+	 */
+	async exportCanvas(file: TFile, entityId: string, options: CanvasOptions) {
+		if (!this.hasCredentials()) {
+			new Notice(this.getMissingCredentialsMessage());
+			return;
+		}
+
+		const progress = new Notice(`Exporting ${file.basename} to canvas...`, 0);
+
+		try {
+			const exporter = new CanvasExporter(this.app, this.apiClient, this.settings, this.entityIndex);
+			const canvasFile = await exporter.export(entityId, options, (message) => progress.setMessage(message));
+
+			progress.hide();
+			new Notice(`Canvas saved: ${canvasFile.path}`);
+			this.reportTemplateWarnings(exporter.takeTemplateWarnings());
+			await this.app.workspace.getLeaf(false).openFile(canvasFile);
+		} catch (error) {
+			progress.hide();
+			console.error('Error exporting canvas:', file.path, error);
+			new Notice(`Error exporting ${file.basename} to canvas: ${error.message}`);
+		}
+
+		// Persist any config usage tracking from imported notes
+		await this.saveSettings();
+	}
+
+	isStubNote(file: TFile): boolean {
+		return this.app.metadataCache.getFileCache(file)?.frontmatter?.[STUB_FLAG_KEY] === true;
+	}
+
+	/**
+	 * Replace a stub note with a full import of its entity, keeping anything added to the note
+	 */
+	async upgradeStub(file: TFile, entityId: string) {
+		if (!this.hasCredentials()) {
+			new Notice(this.getMissingCredentialsMessage());
+			return;
+		}
+
+		const noteGenerator = new NoteGenerator(this.app, this.settings, this.entityIndex);
+
+		try {
+			new Notice(`Importing ${file.basename} from OpenSanctions...`);
+			const enrichedEntity = await this.apiClient.fetchWithRelationships(entityId);
+			// The stub is found through the entity index and updated in place
+			await noteGenerator.generateNote(enrichedEntity);
+			if (this.settings.createStubNotes) {
+				await noteGenerator.createStubNotes(enrichedEntity);
+			}
+			new Notice(`Upgraded stub to full note: ${file.basename}`);
+			this.reportTemplateWarnings(noteGenerator.takeTemplateWarnings());
+		} catch (error) {
+			console.error('Error upgrading stub note:', file.path, error);
+			new Notice(`Error upgrading ${file.basename}: ${error.message}`);
+		}
+	}
 }
 
 class OpenSanctionsSettingTab extends PluginSettingTab {
 	plugin: OpenSanctionsPlugin;
+	connectionStatusSetting: Setting | null = null;
 
 	constructor(app: App, plugin: OpenSanctionsPlugin) {
 		super(app, plugin);
@@ -137,15 +693,79 @@ class OpenSanctionsSettingTab extends PluginSettingTab {
 		containerEl.createEl('h3', { text: 'API Configuration' });
 
 		new Setting(containerEl)
-			.setName('API Key')
-			.setDesc('Your OpenSanctions API key (get one at opensanctions.org)')
+			.setName('API Base URL')
+			.setDesc('Use the hosted API or the URL of your own yente instance')
 			.addText(text => text
-				.setPlaceholder('Enter your API key')
-				.setValue(this.plugin.settings.apiKey)
+				.setPlaceholder(DEFAULT_SETTINGS.connectionSettings.baseUrl)
+				.setValue(this.plugin.settings.connectionSettings.baseUrl)
 				.onChange(async (value) => {
-					this.plugin.settings.apiKey = value;
+					this.plugin.settings.connectionSettings.baseUrl = value.trim();
 					await this.plugin.saveSettings();
-				}))
+				}));
+
+		new Setting(containerEl)
+			.setName('Authentication')
+			.setDesc('How requests are authenticated')
+			.addDropdown(dropdown => dropdown
+				.addOption(AuthScheme.API_KEY, 'OpenSanctions API key')
+				.addOption(AuthScheme.HEADER, 'Custom header')
+				.addOption(AuthScheme.NONE, 'None')
+				.setValue(this.plugin.settings.connectionSettings.authScheme)
+				.onChange(async (value) => {
+					this.plugin.settings.connectionSettings.authScheme = value as AuthScheme;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		const authScheme = this.plugin.settings.connectionSettings.authScheme;
+
+		if (authScheme === AuthScheme.API_KEY) {
+			new Setting(containerEl)
+				.setName('API Key')
+				.setDesc('Your OpenSanctions API key (get one at opensanctions.org)')
+				.addText(text => text
+					.setPlaceholder('Enter your API key')
+					.setValue(this.plugin.settings.apiKey)
+					.onChange(async (value) => {
+						this.plugin.settings.apiKey = value;
+						await this.plugin.saveSettings();
+					}));
+		} else if (authScheme === AuthScheme.HEADER) {
+			new Setting(containerEl)
+				.setName('Header Name')
+				.setDesc('e.g. Authorization or X-API-Key')
+				.addText(text => text
+					.setValue(this.plugin.settings.connectionSettings.authHeaderName)
+					.onChange(async (value) => {
+						this.plugin.settings.connectionSettings.authHeaderName = value.trim();
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl)
+				.setName('Header Value')
+				.setDesc('e.g. Bearer <token>')
+				.addText(text => text
+					.setValue(this.plugin.settings.connectionSettings.authHeaderValue)
+					.onChange(async (value) => {
+						this.plugin.settings.connectionSettings.authHeaderValue = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Default Dataset')
+			.setDesc('Dataset scope used for search and screening (e.g. default, sanctions, peps)')
+			.addText(text => text
+				.setPlaceholder('default')
+				.setValue(this.plugin.settings.connectionSettings.defaultDataset)
+				.onChange(async (value) => {
+					this.plugin.settings.connectionSettings.defaultDataset = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		this.connectionStatusSetting = new Setting(containerEl)
+			.setName('Connection')
+			.setDesc('Check the server, credentials and indexed datasets')
 			.addButton(button => button
 				.setButtonText('Test Connection')
 				.setCta()
@@ -153,12 +773,84 @@ class OpenSanctionsSettingTab extends PluginSettingTab {
 					await this.testApiConnection();
 				}));
 
+		new Setting(containerEl)
+			.setName('Max Retries')
+			.setDesc('How many times a request is retried when the API is rate limiting or temporarily unavailable (429, 502, 503, 504)')
+			.addSlider(slider => slider
+				.setLimits(0, 10, 1)
+				.setValue(this.plugin.settings.retrySettings.maxRetries)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.retrySettings.maxRetries = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Retry Budget (seconds)')
+			.setDesc('Maximum total time to spend waiting between retries of one request before giving up')
+			.addText(text => text
+				.setPlaceholder('60')
+				.setValue(String(this.plugin.settings.retrySettings.retryBudgetSeconds))
+				.onChange(async (value) => {
+					const seconds = parseInt(value, 10);
+					if (!isNaN(seconds) && seconds >= 0) {
+						this.plugin.settings.retrySettings.retryBudgetSeconds = seconds;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		// Response Cache
+		containerEl.createEl('h3', { text: 'Response Cache' });
+
+		const cacheStatsSetting = new Setting(containerEl)
+			.setName('Cached Responses')
+			.addButton(button => button
+				.setButtonText('Clear Cache')
+				.setWarning()
+				.onClick(async () => {
+					try {
+						await this.plugin.responseCache.clear();
+						new Notice('OpenSanctions response cache cleared');
+					} catch (error) {
+						console.error('Error clearing response cache:', error);
+						new Notice(error.message);
+					}
+					this.updateCacheStats(cacheStatsSetting);
+				}));
+		this.updateCacheStats(cacheStatsSetting);
+
+		new Setting(containerEl)
+			.setName('Enable Cache')
+			.setDesc('Store entity and relationship responses on disk so re-imports do not re-fetch them')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.cacheSettings.enabled)
+				.onChange(async (value) => {
+					this.plugin.settings.cacheSettings.enabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.addNumberSetting(containerEl, 'Entity TTL (hours)', 'How long entity details stay cached',
+			() => this.plugin.settings.cacheSettings.entityTtlHours,
+			(value) => this.plugin.settings.cacheSettings.entityTtlHours = value);
+
+		this.addNumberSetting(containerEl, 'Relationship TTL (hours)', 'How long adjacency (relationship) responses stay cached',
+			() => this.plugin.settings.cacheSettings.adjacentTtlHours,
+			(value) => this.plugin.settings.cacheSettings.adjacentTtlHours = value);
+
+		this.addNumberSetting(containerEl, 'Catalog TTL (hours)', 'How long the dataset catalog used for search filters stays cached',
+			() => this.plugin.settings.cacheSettings.catalogTtlHours,
+			(value) => this.plugin.settings.cacheSettings.catalogTtlHours = value);
+
+		this.addNumberSetting(containerEl, 'Maximum Size (MB)', 'Least recently used responses are evicted above this size',
+			() => this.plugin.settings.cacheSettings.maxSizeMB,
+			(value) => this.plugin.settings.cacheSettings.maxSizeMB = value);
+
 		// Default Import Settings
 		containerEl.createEl('h3', { text: 'Default Import Settings' });
 
 		new Setting(containerEl)
 			.setName('Destination Folder')
-			.setDesc('Default folder for imported notes')
+			.setDesc('Folder for imported notes that no folder rule matches')
 			.addText(text => text
 				.setPlaceholder('OpenSanctions')
 				.setValue(this.plugin.settings.defaultFolder)
@@ -169,7 +861,7 @@ class OpenSanctionsSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Overwrite Existing Notes')
-			.setDesc('Overwrite existing notes with the same name')
+			.setDesc('Update an existing note with the same name instead of creating a new one, unless it belongs to another entity')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.overwriteExisting)
 				.onChange(async (value) => {
@@ -197,6 +889,105 @@ class OpenSanctionsSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Relationship Diagram')
+			.setDesc('Add a Mermaid diagram of the entity\'s relationships to the default note body')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeRelationshipDiagram)
+				.onChange(async (value) => {
+					this.plugin.settings.includeRelationshipDiagram = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Create Stub Notes')
+			.setDesc('Create a placeholder note for each related entity so relationship links resolve')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.createStubNotes)
+				.onChange(async (value) => {
+					this.plugin.settings.createStubNotes = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Relationship Inline Fields')
+			.setDesc('Add Dataview inline fields (role, start, end, share, status) below the relationships table')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.relationshipInlineFields)
+				.onChange(async (value) => {
+					this.plugin.settings.relationshipInlineFields = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Filename Settings
+		containerEl.createEl('h3', { text: 'Filename Settings' });
+
+		const filenameSettings = this.plugin.settings.filenameSettings;
+
+		new Setting(containerEl)
+			.setName('Filename Pattern')
+			.setDesc(`How new notes are named. Tokens: ${FILENAME_TOKENS.map(t => `{${t}}`).join(', ')}. Brackets left empty by a missing value are dropped.`)
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.filenameSettings.pattern)
+				.setValue(filenameSettings.pattern)
+				.onChange(async (value) => {
+					filenameSettings.pattern = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		['Person', 'Company', 'LegalEntity', 'Vessel', 'Airplane'].forEach(schema => {
+			new Setting(containerEl)
+				.setName(`${schema} Filename Pattern`)
+				.setDesc(`Overrides the filename pattern for ${schema} entities`)
+				.addText(text => text
+					.setPlaceholder('Same as filename pattern')
+					.setValue(filenameSettings.schemaPatterns[schema] || '')
+					.onChange(async (value) => {
+						if (value.trim()) {
+							filenameSettings.schemaPatterns[schema] = value.trim();
+						} else {
+							delete filenameSettings.schemaPatterns[schema];
+						}
+						await this.plugin.saveSettings();
+					}));
+		});
+
+		new Setting(containerEl)
+			.setName('Name Collisions')
+			.setDesc('When a new note\'s name is taken by a note for another entity')
+			.addDropdown(dropdown => dropdown
+				.addOption(CollisionStrategy.ATTRIBUTES, 'Add birth year, country or ID')
+				.addOption(CollisionStrategy.COUNTER, 'Add a number')
+				.setValue(filenameSettings.collisionStrategy)
+				.onChange(async (value) => {
+					filenameSettings.collisionStrategy = value as CollisionStrategy;
+					await this.plugin.saveSettings();
+				}));
+
+		// Folder Rules
+		containerEl.createEl('h3', { text: 'Folder Rules' });
+		containerEl.createEl('p', {
+			text: `New notes go to the folder of the first matching rule, or the destination folder if none match. Folders can use the tokens ${FOLDER_TOKENS.map(t => `{${t}}`).join(', ')}.`,
+			cls: 'setting-item-description'
+		});
+
+		const folderRulesContainer = containerEl.createDiv();
+		this.addFolderRuleSettings(folderRulesContainer);
+
+		// Templates
+		containerEl.createEl('h3', { text: 'Templates' });
+
+		containerEl.createEl('p', {
+			text: 'New and refreshed notes use the template of the first matching rule, then the template for their entity type, then the default note body.',
+			cls: 'setting-item-description'
+		});
+
+		const templateRulesContainer = containerEl.createDiv();
+		this.addTemplateRuleSettings(templateRulesContainer);
+
+		const templatesContainer = containerEl.createDiv();
+		this.addTemplateSettings(templatesContainer);
+
 		// Quick Import Settings
 		containerEl.createEl('h3', { text: 'Quick Import Settings' });
 
@@ -220,6 +1011,61 @@ class OpenSanctionsSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		// Screening Settings
+		containerEl.createEl('h3', { text: 'Screening Settings' });
+
+		new Setting(containerEl)
+			.setName('Match Threshold')
+			.setDesc('Minimum score (0-1) for a screening candidate to count as a match')
+			.addSlider(slider => slider
+				.setLimits(0.5, 1, 0.05)
+				.setValue(this.plugin.settings.screeningThreshold)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.screeningThreshold = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Network Import Settings
+		containerEl.createEl('h3', { text: 'Network Import Settings' });
+
+		new Setting(containerEl)
+			.setName('Default Depth')
+			.setDesc('Hops to follow from the starting entity when importing a network')
+			.addSlider(slider => slider
+				.setLimits(1, 4, 1)
+				.setValue(this.plugin.settings.networkImportSettings.maxDepth)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.networkImportSettings.maxDepth = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.addNumberSetting(containerEl, 'Default Maximum Entities',
+			'Stop crawling once this many entities have been found',
+			() => this.plugin.settings.networkImportSettings.maxEntities,
+			(value) => this.plugin.settings.networkImportSettings.maxEntities = Math.max(1, Math.floor(value)));
+
+		new Setting(containerEl)
+			.setName('Default Entity Types')
+			.setDesc('Comma-separated schemas to follow, e.g. "Person, Company". Leave empty for all.')
+			.addText(text => text
+				.setValue(this.plugin.settings.networkImportSettings.schemas.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.networkImportSettings.schemas = value.split(',').map(s => s.trim()).filter(Boolean);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Default Topics')
+			.setDesc('Comma-separated topics an entity must have to be followed, e.g. "sanction, role.pep". Leave empty for all.')
+			.addText(text => text
+				.setValue(this.plugin.settings.networkImportSettings.topics.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.networkImportSettings.topics = value.split(',').map(t => t.trim()).filter(Boolean);
+					await this.plugin.saveSettings();
+				}));
+
 		// Field Configuration
 		containerEl.createEl('h3', { text: 'Field Configuration' });
 
@@ -227,6 +1073,219 @@ class OpenSanctionsSettingTab extends PluginSettingTab {
 		this.addFieldConfigSettings(fieldConfigContainer);
 	}
 
+	addNumberSetting(container: HTMLElement, name: string, desc: string, getValue: () => number, setValue: (value: number) => void) {
+		new Setting(container)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => text
+				.setValue(String(getValue()))
+				.onChange(async (value) => {
+					const parsed = parseFloat(value);
+					if (!isNaN(parsed) && parsed >= 0) {
+						setValue(parsed);
+						await this.plugin.saveSettings();
+					}
+				}));
+	}
+
+	addTemplateSettings(container: HTMLElement) {
+		const noteGenerator = new NoteGenerator(this.app, this.plugin.settings, this.plugin.entityIndex);
+		const defaultDesc = 'Handlebars template for the note body. Leave empty for the default body.';
+
+		['Person', 'Company', 'LegalEntity', 'Vessel', 'Airplane'].forEach(schema => {
+			const setting = new Setting(container).setName(`${schema} Template`);
+			const validate = (path: string) => {
+				if (path) {
+					this.showTemplateCheck(noteGenerator, setting, path, schema);
+				} else {
+					setting.setDesc(defaultDesc);
+					setting.descEl.removeClass('mod-warning');
+				}
+			};
+			const validateLater = debounce(validate, 500);
+
+			const savePath = async (value: string) => {
+				const path = value.trim();
+				if (path) {
+					this.plugin.settings.templates[schema] = path;
+				} else {
+					delete this.plugin.settings.templates[schema];
+				}
+				await this.plugin.saveSettings();
+				validateLater(path);
+			};
+
+			let pathInput: TextComponent;
+			setting
+				.addText(text => {
+					pathInput = text
+						.setPlaceholder(`Templates/${schema}.md`)
+						.setValue(this.plugin.settings.templates[schema] || '')
+						.onChange(savePath);
+				})
+				.addExtraButton(button => button
+					.setIcon('folder-open')
+					.setTooltip('Choose template')
+					.onClick(() => {
+						new NoteSuggestModal(this.app, getTemplateFiles(this.app), `Choose the ${schema} template`, (file) => {
+							pathInput.setValue(file.path);
+							savePath(file.path);
+						}).open();
+					}));
+
+			validate(this.plugin.settings.templates[schema] || '');
+		});
+	}
+
+	addTemplateRuleSettings(container: HTMLElement) {
+		const noteGenerator = new NoteGenerator(this.app, this.plugin.settings, this.plugin.entityIndex);
+		const rules = this.plugin.settings.templateRules;
+		const saveRules = async (updated: TemplateRule[]) => {
+			this.plugin.settings.templateRules = updated;
+			await this.plugin.saveSettings();
+			this.display();
+		};
+
+		rules.forEach((rule, index) => {
+			const setting = new Setting(container)
+				.setName(`${index + 1}. ${rule.template || '(no template)'}`)
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('Move up')
+					.setDisabled(index === 0)
+					.onClick(() => {
+						if (index === 0) return;
+						const updated = [...rules];
+						[updated[index - 1], updated[index]] = [updated[index], updated[index - 1]];
+						saveRules(updated);
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip('Move down')
+					.setDisabled(index === rules.length - 1)
+					.onClick(() => {
+						if (index === rules.length - 1) return;
+						const updated = [...rules];
+						[updated[index], updated[index + 1]] = [updated[index + 1], updated[index]];
+						saveRules(updated);
+					}))
+				.addExtraButton(button => button
+					.setIcon('pencil')
+					.setTooltip('Edit')
+					.onClick(() => this.openTemplateRuleModal(rule, (edited) => {
+						saveRules(rules.map((r, i) => i === index ? edited : r));
+					})))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete')
+					.onClick(() => saveRules(rules.filter((_, i) => i !== index))));
+
+			// Rules without a type are checked against a sample person
+			setting.setDesc(describeRuleConditions(rule));
+			if (rule.template) {
+				this.showTemplateCheck(noteGenerator, setting, rule.template, rule.schemas[0] || 'Person', `${describeRuleConditions(rule)}. `);
+			}
+		});
+
+		new Setting(container)
+			.addButton(button => button
+				.setButtonText('Add Rule')
+				.onClick(() => this.openTemplateRuleModal(
+					{ ...createEmptyConditions(), template: '' },
+					(rule) => saveRules([...rules, rule])
+				)));
+	}
+
+	openTemplateRuleModal(rule: TemplateRule, onSave: (rule: TemplateRule) => void) {
+		new EntityRuleModal<TemplateRule>(this.app, 'Template Rule', rule, {
+			key: 'template',
+			set: (rule, template) => { rule.template = template; },
+			name: 'Template',
+			desc: 'Template note for the body of matching notes, e.g. a PEP template for topic "role.pep"',
+			placeholder: 'Templates/PEP.md',
+			files: () => getTemplateFiles(this.app)
+		}, onSave).open();
+	}
+
+	/**
+	 * Render a template against a sample entity and show the result under its setting,
+	 * so a broken template is noticed before the next import
+	 */
+	async showTemplateCheck(noteGenerator: NoteGenerator, setting: Setting, path: string, schema: string, prefix: string = '') {
+		const problem = await noteGenerator.validateTemplate(path, schema);
+		setting.setDesc(`${prefix}${problem ? `✗ ${problem}` : '✓ Template renders'}`);
+		setting.descEl.toggleClass('mod-warning', !!problem);
+	}
+
+	addFolderRuleSettings(container: HTMLElement) {
+		const rules = this.plugin.settings.folderRules;
+		const saveRules = async (updated: FolderRule[]) => {
+			this.plugin.settings.folderRules = updated;
+			await this.plugin.saveSettings();
+			this.display();
+		};
+
+		rules.forEach((rule, index) => {
+			new Setting(container)
+				.setName(`${index + 1}. ${rule.folder || '(no folder)'}`)
+				.setDesc(describeRuleConditions(rule))
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('Move up')
+					.setDisabled(index === 0)
+					.onClick(() => {
+						if (index === 0) return;
+						const updated = [...rules];
+						[updated[index - 1], updated[index]] = [updated[index], updated[index - 1]];
+						saveRules(updated);
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip('Move down')
+					.setDisabled(index === rules.length - 1)
+					.onClick(() => {
+						if (index === rules.length - 1) return;
+						const updated = [...rules];
+						[updated[index], updated[index + 1]] = [updated[index + 1], updated[index]];
+						saveRules(updated);
+					}))
+				.addExtraButton(button => button
+					.setIcon('pencil')
+					.setTooltip('Edit')
+					.onClick(() => this.openFolderRuleModal(rule, (edited) => {
+						saveRules(rules.map((r, i) => i === index ? edited : r));
+					})))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete')
+					.onClick(() => saveRules(rules.filter((_, i) => i !== index))));
+		});
+
+		new Setting(container)
+			.addButton(button => button
+				.setButtonText('Add Rule')
+				.onClick(() => this.openFolderRuleModal(
+					{ ...createEmptyConditions(), folder: '' },
+					(rule) => saveRules([...rules, rule])
+				)));
+	}
+
+	openFolderRuleModal(rule: FolderRule, onSave: (rule: FolderRule) => void) {
+		new EntityRuleModal<FolderRule>(this.app, 'Folder Rule', rule, {
+			key: 'folder',
+			set: (rule, folder) => { rule.folder = folder; },
+			name: 'Folder',
+			desc: 'Where matching notes are created, e.g. "Sanctioned/OFAC" or "Entities/{schema}/{country}"',
+			placeholder: 'Entities/{schema}'
+		}, onSave).open();
+	}
+
+	updateCacheStats(setting: Setting) {
+		const stats = this.plugin.responseCache.getStats();
+		const sizeMB = (stats.sizeBytes / (1024 * 1024)).toFixed(2);
+		setting.setDesc(`${stats.entries} responses (${stats.byKind.entity} entities, ${stats.byKind.adjacent} relationship lookups, ${stats.byKind.catalog} catalog), ${sizeMB} MB`);
+	}
+
 	addFieldConfigSettings(container: HTMLElement) {
 		const schemas = ['Person', 'Company', 'LegalEntity', 'Vessel', 'Airplane'];
 
@@ -243,23 +1302,32 @@ class OpenSanctionsSettingTab extends PluginSettingTab {
 	}
 
 	async testApiConnection() {
-		if (!this.plugin.settings.apiKey) {
-			new Notice('Please enter an API key first');
+		if (!this.plugin.hasCredentials()) {
+			new Notice('Please enter your API credentials first');
 			return;
 		}
 
 		try {
 			new Notice('Testing API connection...');
 
-			// Simple test search to validate the API key works
-			const result = await this.plugin.apiClient.search({
+			// Simple test search to validate the credentials work
+			await this.plugin.apiClient.search({
 				query: 'test',
 				limit: 1
 			});
 
-			new Notice('✓ API key is valid. Connection successful!');
+			const info = await this.plugin.apiClient.getServerInfo();
+			const versionText = info.version ? `yente ${info.version}` : 'unknown server version';
+			const datasetPreview = info.datasets.slice(0, 5).join(', ');
+			const moreText = info.datasets.length > 5 ? ` +${info.datasets.length - 5} more` : '';
+
+			this.connectionStatusSetting?.setDesc(
+				`Connected to ${versionText}. ${info.datasets.length} datasets indexed${datasetPreview ? `: ${datasetPreview}${moreText}` : ''}`
+			);
+			new Notice(`✓ Connection successful (${versionText}, ${info.datasets.length} datasets)`);
 		} catch (error) {
 			console.error('API connection test failed:', error);
+			this.connectionStatusSetting?.setDesc(`Connection failed: ${error.message}`);
 			new Notice(`✗ Connection failed: ${error.message}`);
 		}
 	}
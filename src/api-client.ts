@@ -1,75 +1,222 @@
-import { Notice, requestUrl } from 'obsidian';
-import { OpenSanctionsEntity, SearchParams, SearchResponse, EnrichedEntity } from './types';
+import { Notice, requestUrl, RequestUrlResponse } from 'obsidian';
+import { OpenSanctionsEntity, SearchParams, SearchResponse, EnrichedEntity, MatchQuery, MatchParams, MatchResponse, MatchResult, RetrySettings, ConnectionSettings, AuthScheme, ServerInfo, DEFAULT_SETTINGS } from './types';
+import { AdaptiveRateLimiter, backoffDelay, parseRetryAfter, sleep } from './rate-limiter';
+import { ResponseCache, CacheKind } from './response-cache';
+import { RelationshipProcessor, extractRelationships } from './relationship-processor';
+
+type QueryParams = Record<string, string | string[]>;
+
+// Transient statuses worth retrying for idempotent requests
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+// POST endpoints that only read data, so are as safe to repeat as GETs
+const READ_ONLY_POST_ENDPOINTS = /^\/match\//;
 
 export class OpenSanctionsApiClient {
 	private apiKey: string;
-	private baseUrl = 'https://api.opensanctions.org';
-	private lastRequestTime = 0;
-	private minRequestInterval = 100; // Rate limiting: 10 requests per second max
-
-	constructor(apiKey: string) {
+	private connection: ConnectionSettings;
+	private retrySettings: RetrySettings;
+	private rateLimiter = new AdaptiveRateLimiter(100); // Start at 10 requests per second max
+	private cache: ResponseCache | null = null;
+
+	constructor(
+		apiKey: string,
+		retrySettings: RetrySettings = DEFAULT_SETTINGS.retrySettings,
+		connection: ConnectionSettings = DEFAULT_SETTINGS.connectionSettings
+	) {
 		this.apiKey = apiKey;
+		this.retrySettings = retrySettings;
+		this.connection = connection;
 	}
 
 	updateApiKey(apiKey: string) {
 		this.apiKey = apiKey;
 	}
 
+	updateConnectionSettings(connection: ConnectionSettings) {
+		this.connection = connection;
+	}
+
+	private get baseUrl(): string {
+		return (this.connection.baseUrl || DEFAULT_SETTINGS.connectionSettings.baseUrl).trim().replace(/\/+$/, '');
+	}
+
+	private get defaultDataset(): string {
+		return this.connection.defaultDataset?.trim() || 'default';
+	}
+
+	/**
+	 * Authentication headers for the configured scheme
+	 */
+	private getAuthHeaders(): Record<string, string> {
+		switch (this.connection.authScheme) {
+			case AuthScheme.NONE:
+				return {};
+			case AuthScheme.HEADER:
+				return this.connection.authHeaderName && this.connection.authHeaderValue
+					? { [this.connection.authHeaderName]: this.connection.authHeaderValue }
+					: {};
+			default:
+				return this.apiKey ? { 'Authorization': `ApiKey ${this.apiKey}` } : {};
+		}
+	}
+
+	updateRetrySettings(retrySettings: RetrySettings) {
+		this.retrySettings = retrySettings;
+	}
+
+	setCache(cache: ResponseCache | null) {
+		this.cache = cache;
+	}
+
 	private async rateLimit() {
-		const now = Date.now();
-		const timeSinceLastRequest = now - this.lastRequestTime;
+		await this.rateLimiter.wait();
+	}
 
-		if (timeSinceLastRequest < this.minRequestInterval) {
-			const delay = this.minRequestInterval - timeSinceLastRequest;
-			await new Promise(resolve => setTimeout(resolve, delay));
+	private async makeRequest(endpoint: string, params?: QueryParams, body?: unknown): Promise<any> {
+		// Entity and adjacency lookups are served from the persistent cache when fresh
+		const cacheTarget = body === undefined ? this.getCacheTarget(endpoint) : null;
+		const cacheKey = cacheTarget ? this.getCacheKey(endpoint, params) : '';
+		if (cacheTarget && this.cache) {
+			const cached = this.cache.get(cacheKey);
+			if (cached !== undefined) {
+				return cached;
+			}
 		}
 
-		this.lastRequestTime = Date.now();
+		const data = await this.fetchFromApi(endpoint, params, body);
+
+		if (cacheTarget && this.cache) {
+			const lastChange = cacheTarget.kind === 'adjacent' ? data?.entity?.last_change : data?.last_change;
+			// A fresher entity makes any older cached adjacency for it stale too
+			this.cache.invalidateIfChanged(cacheTarget.entityId, lastChange);
+			this.cache.set(cacheKey, cacheTarget.kind, cacheTarget.entityId, data, lastChange);
+		}
+
+		return data;
+	}
+
+	/**
+	 * Work out whether an endpoint's response can be cached, and for which entity
+	 */
+	private getCacheTarget(endpoint: string): { kind: CacheKind; entityId: string } | null {
+		if (endpoint === '/catalog') {
+			return { kind: 'catalog', entityId: '' };
+		}
+
+		const match = endpoint.match(/^\/entities\/([^/]+)(\/adjacent)?$/);
+		if (!match) return null;
+
+		return {
+			kind: match[2] ? 'adjacent' : 'entity',
+			entityId: decodeURIComponent(match[1])
+		};
+	}
+
+	private getCacheKey(endpoint: string, params?: QueryParams): string {
+		const query = Object.entries(params || {})
+			.filter(([, value]) => value !== undefined && value !== null && value !== '')
+			.sort(([a], [b]) => a.localeCompare(b))
+			.map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(',') : value}`)
+			.join('&');
+		// Include the base URL so responses from different instances never mix
+		const path = `${this.baseUrl}${endpoint}`;
+		return query ? `${path}?${query}` : path;
 	}
 
-	private async makeRequest(endpoint: string, params?: Record<string, string>): Promise<any> {
-		await this.rateLimit();
+	/**
+	 * Drop cached data for entities whose last_change is newer than what was cached
+	 */
+	private invalidateChanged(entities: OpenSanctionsEntity[]) {
+		if (!this.cache) return;
+
+		for (const entity of entities) {
+			this.cache.invalidateIfChanged(entity.id, entity.last_change);
+		}
+	}
 
+	private async fetchFromApi(endpoint: string, params?: QueryParams, body?: unknown): Promise<any> {
 		const url = new URL(`${this.baseUrl}${endpoint}`);
 
-		// Add query parameters
+		// Add query parameters; array values become repeated parameters
 		if (params) {
 			Object.entries(params).forEach(([key, value]) => {
-				if (value !== undefined && value !== null && value !== '') {
-					url.searchParams.append(key, value);
-				}
+				const values = Array.isArray(value) ? value : [value];
+				values.forEach(v => {
+					if (v !== undefined && v !== null && v !== '') {
+						url.searchParams.append(key, v);
+					}
+				});
 			});
 		}
 
 		const headers: Record<string, string> = {
-			'Accept': 'application/json'
+			'Accept': 'application/json',
+			...this.getAuthHeaders()
 		};
 
-		// Add authorization header if API key is provided
-		if (this.apiKey) {
-			headers['Authorization'] = `ApiKey ${this.apiKey}`;
+		// Requests with a body (e.g. /match) are sent as JSON POSTs
+		if (body !== undefined) {
+			headers['Content-Type'] = 'application/json';
 		}
 
-		try {
-			const response = await requestUrl({
-				url: url.toString(),
-				method: 'GET',
-				headers
-			});
+		// Only requests that are safe to repeat are retried automatically
+		const isIdempotent = body === undefined || READ_ONLY_POST_ENDPOINTS.test(endpoint);
+		const { maxRetries, retryBudgetSeconds } = this.retrySettings;
+		let attempt = 0;
+		let totalWait = 0;
 
-			return response.json;
-		} catch (error) {
-			// Handle HTTP errors from requestUrl
-			if (error.status) {
-				await this.handleHttpErrorFromRequestUrl(error);
-			} else if (error.message.includes('Failed to fetch') || error.message.includes('Network')) {
-				throw new Error('Network error: Could not connect to OpenSanctions. Check your internet connection.');
-			} else {
+		for (;;) {
+			await this.rateLimit();
+
+			let response: RequestUrlResponse;
+			try {
+				response = await requestUrl({
+					url: url.toString(),
+					method: body !== undefined ? 'POST' : 'GET',
+					headers,
+					body: body !== undefined ? JSON.stringify(body) : undefined,
+					throw: false
+				});
+			} catch (error) {
+				if (error.message?.includes('Failed to fetch') || error.message?.includes('Network') || error.message?.includes('net::')) {
+					throw new Error('Network error: Could not connect to OpenSanctions. Check your internet connection.');
+				}
 				throw error;
 			}
+
+			if (response.status < 400) {
+				this.rateLimiter.onSuccess();
+				return response.json;
+			}
+
+			const retryAfter = parseRetryAfter(this.getHeader(response, 'retry-after'));
+			if (response.status === 429 || response.status === 503) {
+				this.rateLimiter.onThrottled(retryAfter);
+			}
+
+			if (isIdempotent && RETRYABLE_STATUSES.includes(response.status) && attempt < maxRetries) {
+				const delay = retryAfter ?? backoffDelay(attempt);
+
+				// Give up once the total wait would exceed the configured budget
+				if (totalWait + delay <= retryBudgetSeconds * 1000) {
+					attempt++;
+					totalWait += delay;
+					new Notice(`OpenSanctions is busy (${response.status}). Retrying in ${Math.ceil(delay / 1000)}s (attempt ${attempt} of ${maxRetries})...`, Math.min(delay, 5000));
+					await sleep(delay);
+					continue;
+				}
+			}
+
+			await this.handleHttpErrorFromRequestUrl(response, attempt);
 		}
 	}
 
+	private getHeader(response: RequestUrlResponse, name: string): string | undefined {
+		const key = Object.keys(response.headers || {}).find(k => k.toLowerCase() === name);
+		return key ? response.headers[key] : undefined;
+	}
+
 	private async handleHttpError(response: Response) {
 		const status = response.status;
 		let errorMessage = '';
@@ -99,8 +246,9 @@ export class OpenSanctionsApiClient {
 		}
 	}
 
-	private async handleHttpErrorFromRequestUrl(error: any) {
+	private async handleHttpErrorFromRequestUrl(error: any, retries = 0) {
 		const status = error.status;
+		const retriedText = retries > 0 ? ` after ${retries} retr${retries === 1 ? 'y' : 'ies'}` : '';
 		let errorMessage = '';
 
 		try {
@@ -126,16 +274,19 @@ export class OpenSanctionsApiClient {
 			case 404:
 				throw new Error('Entity not found in OpenSanctions database.');
 			case 429:
-				throw new Error('Rate limit exceeded. Please wait and try again.');
+				throw new Error(`Rate limit exceeded${retriedText}. Please wait and try again.`);
 			case 500:
-				throw new Error('OpenSanctions server error. Please try again later.');
+			case 502:
+			case 503:
+			case 504:
+				throw new Error(`OpenSanctions server error (${status})${retriedText}. Please try again later.`);
 			default:
 				throw new Error(`Request failed (${status}): ${errorMessage}`);
 		}
 	}
 
 	async search(params: SearchParams): Promise<SearchResponse> {
-		const queryParams: Record<string, string> = {
+		const queryParams: QueryParams = {
 			q: params.query || '',
 			limit: (params.limit || 20).toString(),
 			offset: (params.offset || 0).toString()
@@ -145,18 +296,57 @@ export class OpenSanctionsApiClient {
 		if (params.schema) {
 			queryParams.schema = params.schema;
 		}
-		if (params.dataset) {
-			queryParams.dataset = params.dataset;
-		}
 		if (params.topics && params.topics.length > 0) {
-			queryParams.topics = params.topics.join(',');
+			queryParams.topics = params.topics;
 		}
 		if (params.countries && params.countries.length > 0) {
-			queryParams.countries = params.countries.join(',');
+			queryParams.countries = params.countries;
+		}
+		if (params.datasets && params.datasets.length > 0) {
+			queryParams.include_dataset = params.datasets;
 		}
 
-		const response = await this.makeRequest('/search/default', queryParams);
-		return response as SearchResponse;
+		// A selected dataset narrows the search scope; otherwise use the configured default
+		const dataset = params.dataset || this.defaultDataset;
+		const response = await this.makeRequest(`/search/${encodeURIComponent(dataset)}`, queryParams) as SearchResponse;
+		this.invalidateChanged(response.results || []);
+		return response;
+	}
+
+	/**
+	 * Screen a query entity against the /match endpoint and return scored candidates, best first.
+	 */
+	async match(query: MatchQuery, params: MatchParams = {}): Promise<MatchResult[]> {
+		const queryParams: Record<string, string> = {
+			limit: (params.limit || 10).toString()
+		};
+
+		if (params.threshold !== undefined) {
+			queryParams.threshold = params.threshold.toString();
+		}
+		if (params.algorithm) {
+			queryParams.algorithm = params.algorithm;
+		}
+
+		// Drop empty property values so they don't count against the match
+		const properties: Record<string, string[]> = {};
+		for (const [prop, values] of Object.entries(query.properties)) {
+			const cleaned = values.map(v => v.trim()).filter(Boolean);
+			if (cleaned.length > 0) {
+				properties[prop] = cleaned;
+			}
+		}
+
+		const dataset = params.dataset || this.defaultDataset;
+		const response = await this.makeRequest(
+			`/match/${encodeURIComponent(dataset)}`,
+			queryParams,
+			{ queries: { q: { schema: query.schema, properties } } }
+		) as MatchResponse;
+
+		const results = response.responses?.q?.results || [];
+		this.invalidateChanged(results);
+		return results.sort((a, b) => b.score - a.score);
 	}
 
 	async getEntity(entityId: string): Promise<OpenSanctionsEntity> {
@@ -206,55 +396,6 @@ export class OpenSanctionsApiClient {
 		}
 	}
 
-	/**
-	 * Extract entity ID from a property value that may be a string ID or a nested EntityResponse object.
-	 */
-	private extractEntityId(value: any): string | null {
-		if (typeof value === 'string') {
-			return value;
-		} else if (value && typeof value === 'object' && value.id) {
-			return value.id;
-		}
-		return null;
-	}
-
-	/**
-	 * Extract all entity IDs from a property value array (handles both string[] and EntityResponse[]).
-	 */
-	private extractEntityIds(values: any[]): string[] {
-		return values.map(v => this.extractEntityId(v)).filter((id): id is string => id !== null);
-	}
-
-	/**
-	 * Check if a property value array contains a given entity ID (handles both string[] and EntityResponse[]).
-	 */
-	private propertyContainsId(values: any[] | undefined, entityId: string): boolean {
-		if (!values) return false;
-		return values.some(v => {
-			if (typeof v === 'string') return v === entityId;
-			if (v && typeof v === 'object' && v.id) return v.id === entityId;
-			return false;
-		});
-	}
-
-	/**
-	 * Extract the first target entity ID and optional caption from a property value array,
-	 * populating the caption map if a nested EntityResponse is found.
-	 */
-	private extractFirstTarget(values: any[] | undefined, captionMap: Map<string, string>): string | null {
-		if (!values || values.length === 0) return null;
-		const first = values[0];
-		if (typeof first === 'string') {
-			return first;
-		} else if (first && typeof first === 'object' && first.id) {
-			if (first.caption) {
-				captionMap.set(first.id, first.caption);
-			}
-			return first.id;
-		}
-		return null;
-	}
-
 	/**
 	 * Extract nested EntityResponse objects from an entity's properties.
 	 * The /entities/{id} endpoint with nested=true (default) embeds relationship entities
@@ -300,170 +441,43 @@ export class OpenSanctionsApiClient {
 			}
 		}
 
-		// Build a caption lookup map from all adjacent entities
-		const captionMap = new Map<string, string>();
-		captionMap.set(entityId, entity.caption);
-		for (const adj of adjacent) {
-			if (adj.caption && adj.id) {
-				captionMap.set(adj.id, adj.caption);
-			}
-			// Also extract captions from nested entity objects within properties
-			if (adj.properties) {
-				for (const values of Object.values(adj.properties)) {
-					if (Array.isArray(values)) {
-						for (const v of values as any[]) {
-							if (v && typeof v === 'object' && v.id && v.caption) {
-								captionMap.set(v.id, v.caption);
-							}
-						}
-					}
-				}
-			}
-		}
+		const processor = new RelationshipProcessor(this);
+		const relationships = await processor.resolve(extractRelationships(entityId, adjacent), adjacent);
 
-		// Collect entity IDs that need caption resolution
-		const unresolvedIds = new Set<string>();
-
-		// Process relationships into structured format
-		const relationships = {
-			directorOf: [] as string[],
-			ownerOf: [] as string[],
-			ownedBy: [] as string[],
-			employeeOf: [] as string[],
-			memberOf: [] as string[],
-			relatedTo: [] as string[],
-			family: [] as string[],
-			coConspirator: [] as string[]
+		return {
+			...entity,
+			relationships: processor.convertToStructuredRelationships(relationships),
+			relatedEntities: processor.toRelatedEntities(relationships),
+			relationshipRecords: processor.toRecords(relationships),
+			sanctions: processor.toSanctions(relationships)
 		};
+	}
 
-		// First pass: collect target IDs from relationship entities
-		const relationshipEntries: { type: string; targetId: string }[] = [];
-
-		for (const rel of adjacent) {
-			switch (rel.schema) {
-				case 'Directorship':
-					if (this.propertyContainsId(rel.properties.director, entityId)) {
-						const org = this.extractFirstTarget(rel.properties.organization, captionMap);
-						if (org) {
-							relationshipEntries.push({ type: 'directorOf', targetId: org });
-							if (!captionMap.has(org)) unresolvedIds.add(org);
-						}
-					}
-					break;
-
-				case 'Ownership':
-					if (this.propertyContainsId(rel.properties.owner, entityId)) {
-						const asset = this.extractFirstTarget(rel.properties.asset, captionMap);
-						if (asset) {
-							relationshipEntries.push({ type: 'ownerOf', targetId: asset });
-							if (!captionMap.has(asset)) unresolvedIds.add(asset);
-						}
-					} else if (this.propertyContainsId(rel.properties.asset, entityId)) {
-						const owner = this.extractFirstTarget(rel.properties.owner, captionMap);
-						if (owner) {
-							relationshipEntries.push({ type: 'ownedBy', targetId: owner });
-							if (!captionMap.has(owner)) unresolvedIds.add(owner);
-						}
-					}
-					break;
-
-				case 'Employment':
-					if (this.propertyContainsId(rel.properties.employee, entityId)) {
-						const employer = this.extractFirstTarget(rel.properties.employer, captionMap);
-						if (employer) {
-							relationshipEntries.push({ type: 'employeeOf', targetId: employer });
-							if (!captionMap.has(employer)) unresolvedIds.add(employer);
-						}
-					}
-					break;
-
-				case 'Membership':
-					if (this.propertyContainsId(rel.properties.member, entityId)) {
-						const org = this.extractFirstTarget(rel.properties.organization, captionMap);
-						if (org) {
-							relationshipEntries.push({ type: 'memberOf', targetId: org });
-							if (!captionMap.has(org)) unresolvedIds.add(org);
-						}
-					}
-					break;
-
-				case 'Family': {
-					const personVals = rel.properties.person || [];
-					const relativeVals = rel.properties.relative || [];
-					let targetId: string | null = null;
-					if (this.propertyContainsId(personVals, entityId)) {
-						targetId = this.extractFirstTarget(relativeVals, captionMap);
-					} else if (this.propertyContainsId(relativeVals, entityId)) {
-						targetId = this.extractFirstTarget(personVals, captionMap);
-					}
-					if (targetId && targetId !== entityId) {
-						relationshipEntries.push({ type: 'family', targetId });
-						if (!captionMap.has(targetId)) unresolvedIds.add(targetId);
-					}
-					break;
-				}
-
-				case 'Associate': {
-					const assocPersonVals = rel.properties.person || [];
-					const associateVals = rel.properties.associate || [];
-					let assocTargetId: string | null = null;
-					if (this.propertyContainsId(assocPersonVals, entityId)) {
-						assocTargetId = this.extractFirstTarget(associateVals, captionMap);
-					} else if (this.propertyContainsId(associateVals, entityId)) {
-						assocTargetId = this.extractFirstTarget(assocPersonVals, captionMap);
-					}
-					if (assocTargetId && assocTargetId !== entityId) {
-						relationshipEntries.push({ type: 'coConspirator', targetId: assocTargetId });
-						if (!captionMap.has(assocTargetId)) unresolvedIds.add(assocTargetId);
-					}
-					break;
-				}
-
-				case 'UnknownLink':
-				case 'Succession':
-				case 'Representation': {
-					const subjectVals = rel.properties.subject || [];
-					const objectVals = rel.properties.object || [];
-					const subjectId = this.extractFirstTarget(subjectVals, captionMap);
-					const objectId = this.extractFirstTarget(objectVals, captionMap);
-					if (subjectId === entityId && objectId) {
-						relationshipEntries.push({ type: 'relatedTo', targetId: objectId });
-						if (!captionMap.has(objectId)) unresolvedIds.add(objectId);
-					} else if (objectId === entityId && subjectId) {
-						relationshipEntries.push({ type: 'relatedTo', targetId: subjectId });
-						if (!captionMap.has(subjectId)) unresolvedIds.add(subjectId);
-					}
-					break;
-				}
-			}
-		}
-
-		// Resolve any unresolved entity IDs to captions
-		for (const targetId of unresolvedIds) {
-			try {
-				const targetEntity = await this.getEntity(targetId);
-				if (targetEntity?.caption) {
-					captionMap.set(targetId, targetEntity.caption);
-				}
-			} catch {
-				// Use ID as fallback if entity can't be fetched
-			}
-		}
+	/**
+	 * Fetch the dataset catalog. Cached with the catalog TTL when the response cache is enabled.
+	 */
+	async getCatalog(): Promise<any> {
+		return await this.makeRequest('/catalog');
+	}
 
-		// Second pass: populate relationships with resolved captions
-		for (const entry of relationshipEntries) {
-			const displayName = captionMap.get(entry.targetId) || entry.targetId;
-			const arr = relationships[entry.type as keyof typeof relationships];
-			if (arr && !arr.includes(displayName)) {
-				arr.push(displayName);
-			}
+	/**
+	 * Fetch the yente server version (from its OpenAPI document) and the datasets it has indexed
+	 */
+	async getServerInfo(): Promise<ServerInfo> {
+		let version: string | null = null;
+		try {
+			const openapi = await this.makeRequest('/openapi.json');
+			version = openapi?.info?.version || null;
+		} catch (error) {
+			console.warn('Could not read server version:', error);
 		}
 
-		return { ...entity, relationships };
-	}
+		const catalog = await this.getCatalog();
+		const datasets: string[] = Array.isArray(catalog?.current)
+			? catalog.current
+			: (catalog?.datasets || []).map((d: any) => d.name).filter(Boolean);
 
-	async getCatalog(): Promise<any> {
-		return await this.makeRequest('/catalog');
+		return { version, datasets };
 	}
 
 	async testConnection(): Promise<{ success: boolean; totalEntities?: number; error?: string }> {
@@ -0,0 +1,361 @@
+import { App, Modal, Setting, Notice, TFile, normalizePath } from 'obsidian';
+import { OpenSanctionsApiClient } from './api-client';
+import { PluginSettings, OpenSanctionsEntity, MatchResult } from './types';
+import { SCREENING_SCHEMAS } from './screening-modal';
+import {
+	BatchScreeningRow,
+	MATCHABLE_PROPERTIES,
+	formatScore,
+	guessPropertyForColumn,
+	parseCsv,
+	parseMarkdownTable,
+	renderBatchResultsNote
+} from './screening';
+
+const ACTIVE_NOTE_SOURCE = '__active_note__';
+
+export class BatchScreeningModal extends Modal {
+	private apiClient: OpenSanctionsApiClient;
+	private settings: PluginSettings;
+	private activeFile: TFile | null;
+	private onImport: (entities: OpenSanctionsEntity[]) => void;
+
+	private source = '';
+	private sourceLabel = '';
+	private headers: string[] = [];
+	private dataRows: string[][] = [];
+	private columnProperties: string[] = [];
+	private schema = 'Person';
+	private screenedRows: BatchScreeningRow[] = [];
+	private importThreshold: number;
+	private isRunning = false;
+	private cancelled = false;
+
+	constructor(app: App, apiClient: OpenSanctionsApiClient, settings: PluginSettings, activeFile: TFile | null) {
+		super(app);
+		this.apiClient = apiClient;
+		this.settings = settings;
+		this.activeFile = activeFile;
+		this.importThreshold = settings.screeningThreshold;
+	}
+
+	setHandler(caller: any, handler: (entities: OpenSanctionsEntity[]) => void) {
+		this.onImport = handler.bind(caller);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Batch Screening - OpenSanctions' });
+
+		this.sourceContainer = contentEl.createDiv('batch-source');
+		this.mappingContainer = contentEl.createDiv('batch-mapping');
+		this.progressContainer = contentEl.createDiv('batch-progress');
+
+		this.renderSourceStep();
+		this.addStyles();
+	}
+
+	private renderSourceStep() {
+		this.sourceContainer.empty();
+
+		const csvFiles = this.app.vault.getFiles()
+			.filter(file => file.extension === 'csv')
+			.sort((a, b) => a.path.localeCompare(b.path));
+
+		const options: Record<string, string> = {};
+		if (this.activeFile && this.activeFile.extension === 'md') {
+			options[ACTIVE_NOTE_SOURCE] = `Table in current note (${this.activeFile.basename})`;
+		}
+		csvFiles.forEach(file => options[file.path] = file.path);
+
+		if (Object.keys(options).length === 0) {
+			this.sourceContainer.createEl('p', {
+				text: 'No CSV files found in the vault. Add a CSV file or open a note containing a Markdown table.',
+				cls: 'no-results'
+			});
+			return;
+		}
+
+		this.source = this.source || Object.keys(options)[0];
+
+		new Setting(this.sourceContainer)
+			.setName('Source')
+			.setDesc('CSV file in the vault, or the first Markdown table in the current note')
+			.addDropdown(dropdown => dropdown
+				.addOptions(options)
+				.setValue(this.source)
+				.onChange((value) => {
+					this.source = value;
+				}))
+			.addButton(button => button
+				.setButtonText('Load')
+				.setCta()
+				.onClick(async () => {
+					this.sourceLabel = options[this.source];
+					await this.loadSource();
+				}));
+	}
+
+	private async loadSource() {
+		let rows: string[][] | null = null;
+
+		try {
+			if (this.source === ACTIVE_NOTE_SOURCE && this.activeFile) {
+				rows = parseMarkdownTable(await this.app.vault.read(this.activeFile));
+				this.sourceLabel = this.activeFile.basename;
+			} else {
+				const file = this.app.vault.getAbstractFileByPath(this.source);
+				if (file instanceof TFile) {
+					rows = parseCsv(await this.app.vault.read(file));
+					this.sourceLabel = file.name;
+				}
+			}
+		} catch (error) {
+			console.error('Failed to read screening source:', this.source, error);
+			new Notice(`Failed to read source: ${error.message}`);
+			return;
+		}
+
+		if (!rows || rows.length < 2) {
+			new Notice('No table rows found. The source needs a header row and at least one data row.');
+			return;
+		}
+
+		this.headers = rows[0];
+		this.dataRows = rows.slice(1);
+		this.columnProperties = this.headers.map(header => guessPropertyForColumn(header));
+		this.renderMappingStep();
+	}
+
+	private renderMappingStep() {
+		this.mappingContainer.empty();
+
+		this.mappingContainer.createEl('h3', { text: `Column Mapping (${this.dataRows.length} rows)` });
+
+		new Setting(this.mappingContainer)
+			.setName('Entity Type')
+			.setDesc('Schema used for every row')
+			.addDropdown(dropdown => {
+				SCREENING_SCHEMAS.forEach(schema => dropdown.addOption(schema, schema));
+				dropdown.setValue(this.schema);
+				dropdown.onChange((value) => {
+					this.schema = value;
+				});
+			});
+
+		this.headers.forEach((header, index) => {
+			const sample = this.dataRows.find(row => row[index])?.[index] || '';
+
+			new Setting(this.mappingContainer)
+				.setName(header || `Column ${index + 1}`)
+				.setDesc(sample ? `e.g. ${sample}` : '')
+				.addDropdown(dropdown => {
+					dropdown.addOption('', 'Ignore');
+					MATCHABLE_PROPERTIES.forEach(prop => dropdown.addOption(prop, prop));
+					dropdown.setValue(this.columnProperties[index]);
+					dropdown.onChange((value) => {
+						this.columnProperties[index] = value;
+					});
+				});
+		});
+
+		new Setting(this.mappingContainer)
+			.addButton(button => button
+				.setButtonText('Run Screening')
+				.setCta()
+				.onClick(() => {
+					this.runScreening();
+				}));
+	}
+
+	private async runScreening() {
+		if (this.isRunning) return;
+
+		if (!this.columnProperties.includes('name')) {
+			new Notice('Map at least one column to "name"');
+			return;
+		}
+
+		this.isRunning = true;
+		this.cancelled = false;
+		this.screenedRows = [];
+		this.mappingContainer.empty();
+
+		this.progressContainer.empty();
+		const progressText = this.progressContainer.createEl('p', { text: 'Starting...' });
+		const cancelButton = this.progressContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => {
+			this.cancelled = true;
+		});
+
+		// Rows are screened one at a time; the client's rate limiting spaces out the requests
+		for (let i = 0; i < this.dataRows.length && !this.cancelled; i++) {
+			const row = this.dataRows[i];
+			const properties: Record<string, string[]> = {};
+
+			this.columnProperties.forEach((prop, index) => {
+				const value = row[index]?.trim();
+				if (prop && value) {
+					properties[prop] = [...(properties[prop] || []), value];
+				}
+			});
+
+			const query = { schema: this.schema, properties };
+			const screened: BatchScreeningRow = { input: row, query, results: [] };
+
+			if (properties.name) {
+				try {
+					screened.results = await this.apiClient.match(query, {
+						limit: 5,
+						threshold: this.settings.screeningThreshold
+					});
+				} catch (error) {
+					console.error('Batch screening row failed:', row, error);
+					screened.error = error.message;
+				}
+			} else {
+				screened.error = 'No name';
+			}
+
+			this.screenedRows.push(screened);
+			progressText.setText(`Screened ${i + 1} of ${this.dataRows.length}...`);
+		}
+
+		this.isRunning = false;
+
+		try {
+			const file = await this.writeResultsNote();
+			new Notice(`Screening results saved to ${file.path}`);
+			this.renderDoneStep(file);
+		} catch (error) {
+			console.error('Failed to write screening results:', error);
+			new Notice(`Failed to write results note: ${error.message}`);
+		}
+	}
+
+	private async writeResultsNote(): Promise<TFile> {
+		const content = renderBatchResultsNote(
+			this.screenedRows,
+			this.headers,
+			this.sourceLabel,
+			this.settings.screeningThreshold
+		);
+
+		const folder = this.settings.defaultFolder || 'OpenSanctions';
+		if (!this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+
+		const stamp = new Date().toISOString().replace('T', ' ').substring(0, 16).replace(':', '');
+		let path = normalizePath(`${folder}/Batch Screening ${stamp}.md`);
+		let counter = 1;
+		while (this.app.vault.getAbstractFileByPath(path)) {
+			path = normalizePath(`${folder}/Batch Screening ${stamp} (${counter++}).md`);
+		}
+
+		return await this.app.vault.create(path, content);
+	}
+
+	private renderDoneStep(resultsFile: TFile) {
+		this.progressContainer.empty();
+
+		const summary = this.cancelled ? 'Screening cancelled' : 'Screening complete';
+		this.progressContainer.createEl('p', {
+			text: `${summary}: ${this.screenedRows.length} rows screened.`
+		});
+
+		const openButton = this.progressContainer.createEl('button', { text: 'Open Results Note' });
+		openButton.addEventListener('click', () => {
+			this.app.workspace.getLeaf(false).openFile(resultsFile);
+			this.close();
+		});
+
+		const importSetting = new Setting(this.progressContainer)
+			.setName('Bulk Import Threshold')
+			.setDesc('Import the best match of every row scoring at or above this value');
+
+		importSetting.addSlider(slider => slider
+			.setLimits(0.5, 1, 0.05)
+			.setValue(this.importThreshold)
+			.setDynamicTooltip()
+			.onChange((value) => {
+				this.importThreshold = value;
+				updateImportButton();
+			}));
+
+		let importButtonEl: HTMLButtonElement;
+		importSetting.addButton(button => {
+			importButtonEl = button.buttonEl;
+			button.setCta().onClick(() => {
+				this.importHits();
+			});
+		});
+
+		const updateImportButton = () => {
+			const count = this.getHits().length;
+			importButtonEl.setText(`Import ${count} hit${count === 1 ? '' : 's'} ≥ ${formatScore(this.importThreshold)}`);
+			importButtonEl.disabled = count === 0;
+		};
+		updateImportButton();
+	}
+
+	/**
+	 * Best match per row above the import threshold, without duplicates
+	 */
+	private getHits(): MatchResult[] {
+		const hits = new Map<string, MatchResult>();
+
+		for (const row of this.screenedRows) {
+			const best = row.results[0];
+			if (best && best.score >= this.importThreshold && !hits.has(best.id)) {
+				hits.set(best.id, best);
+			}
+		}
+
+		return Array.from(hits.values());
+	}
+
+	private importHits() {
+		const hits = this.getHits();
+		if (hits.length === 0) return;
+
+		if (this.onImport) {
+			this.onImport(hits);
+		}
+
+		this.close();
+	}
+
+	private addStyles() {
+		const styleEl = document.createElement('style');
+		styleEl.textContent = `
+			.batch-mapping {
+				max-height: 400px;
+				overflow-y: auto;
+			}
+
+			.batch-progress {
+				margin-top: 15px;
+			}
+
+			.batch-progress button {
+				margin-right: 10px;
+			}
+		`;
+		document.head.appendChild(styleEl);
+	}
+
+	onClose() {
+		// Stop an in-progress run when the modal is closed
+		this.cancelled = true;
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	// Properties to store DOM references
+	private sourceContainer: HTMLDivElement;
+	private mappingContainer: HTMLDivElement;
+	private progressContainer: HTMLDivElement;
+}
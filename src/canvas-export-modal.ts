@@ -0,0 +1,72 @@
+import { App, Modal, Setting } from 'obsidian';
+import { PluginSettings } from './types';
+import { CanvasOptions } from './canvas-exporter';
+
+export class CanvasExportModal extends Modal {
+	private caption: string;
+	private options: CanvasOptions;
+	private onExport: (options: CanvasOptions) => void;
+
+	constructor(app: App, settings: PluginSettings, caption: string) {
+		super(app);
+		this.caption = caption;
+		this.options = {
+			maxDepth: Math.min(settings.networkImportSettings.maxDepth, 3),
+			maxEntities: settings.networkImportSettings.maxEntities
+		};
+	}
+
+	setHandler(caller: any, handler: (options: CanvasOptions) => void) {
+		this.onExport = handler.bind(caller);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Export to Canvas - OpenSanctions' });
+		contentEl.createEl('p', {
+			text: `Create a canvas of ${this.caption} and its network. Entities without a note are imported first. The type and topic filters from the network import settings apply.`,
+			cls: 'setting-item-description'
+		});
+
+		new Setting(contentEl)
+			.setName('Depth')
+			.setDesc('Number of hops to include from this entity')
+			.addSlider(slider => slider
+				.setLimits(1, 3, 1)
+				.setValue(this.options.maxDepth)
+				.setDynamicTooltip()
+				.onChange((value) => {
+					this.options.maxDepth = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Maximum Entities')
+			.setDesc('Cards on the canvas, including this entity')
+			.addText(text => text
+				.setValue(String(this.options.maxEntities))
+				.onChange((value) => {
+					const parsed = parseInt(value);
+					if (!isNaN(parsed) && parsed > 0) {
+						this.options.maxEntities = parsed;
+					}
+				}));
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Export')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					if (this.onExport) {
+						this.onExport(this.options);
+					}
+				}));
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
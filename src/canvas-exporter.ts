@@ -0,0 +1,222 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { OpenSanctionsApiClient } from './api-client';
+import { PluginSettings, OpenSanctionsEntity } from './types';
+import { NetworkCrawler, NetworkCrawlResult, NetworkEdge } from './network-crawler';
+import { NoteGenerator, TemplateWarning } from './note-generator';
+import { EntityIndex } from './entity-index';
+import { RELATIONSHIP_LABELS } from './relationship-processor';
+
+// Layers of the layout, top to bottom. Schemas not listed go in the last layer.
+const CANVAS_LAYERS: string[][] = [
+	['Person'],
+	['Company', 'Organization', 'LegalEntity', 'PublicBody'],
+	['Vessel', 'Airplane', 'CryptoWallet', 'Security', 'RealEstate']
+];
+
+const CARD_WIDTH = 280;
+const CARD_HEIGHT = 160;
+const HORIZONTAL_GAP = 60;
+const VERTICAL_GAP = 220;
+
+// Canvas preset colours: "1" is red, "4" is green
+const SANCTIONED_COLOR = '1';
+const SEED_COLOR = '4';
+
+export interface CanvasOptions {
+	maxDepth: number;
+	maxEntities: number;
+}
+
+// JSON Canvas format as written by Obsidian
+interface CanvasNode {
+	id: string;
+	type: 'file';
+	file: string;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	color?: string;
+}
+
+interface CanvasEdge {
+	id: string;
+	fromNode: string;
+	fromSide: 'top' | 'right' | 'bottom' | 'left';
+	toNode: string;
+	toSide: 'top' | 'right' | 'bottom' | 'left';
+	label?: string;
+}
+
+export interface CanvasData {
+	nodes: CanvasNode[];
+	edges: CanvasEdge[];
+}
+
+/**
+ * Exports an entity and its network to a .canvas file with a card per entity note
+ */
+export class CanvasExporter {
+	private app: App;
+	private apiClient: OpenSanctionsApiClient;
+	private settings: PluginSettings;
+	private entityIndex: EntityIndex;
+	private noteGenerator: NoteGenerator;
+
+	constructor(app: App, apiClient: OpenSanctionsApiClient, settings: PluginSettings, entityIndex: EntityIndex) {
+		this.app = app;
+		this.apiClient = apiClient;
+		this.settings = settings;
+		this.entityIndex = entityIndex;
+		this.noteGenerator = new NoteGenerator(app, settings, entityIndex);
+	}
+
+	/**
+	 * Templates that failed for notes imported during the export
+	 */
+	takeTemplateWarnings(): TemplateWarning[] {
+		return this.noteGenerator.takeTemplateWarnings();
+	}
+
+	async export(seedId: string, options: CanvasOptions, onProgress?: (message: string) => void): Promise<TFile> {
+		const crawler = new NetworkCrawler(this.apiClient);
+		const network = await crawler.crawl(
+			seedId,
+			{ ...this.settings.networkImportSettings, maxDepth: options.maxDepth, maxEntities: options.maxEntities },
+			(progress) => onProgress?.(`Crawling network: ${progress.found} entities found...`)
+		);
+
+		const notes = await this.ensureNotes(network, onProgress);
+		const canvas = buildCanvas(network, notes, seedId);
+
+		const seed = network.nodes[0].entity;
+		return await this.writeCanvas(seed, canvas);
+	}
+
+	/**
+	 * Map each entity to its note, importing entities that have no note yet
+	 */
+	private async ensureNotes(network: NetworkCrawlResult, onProgress?: (message: string) => void): Promise<Map<string, TFile>> {
+		const noteGenerator = this.noteGenerator;
+		const notes = new Map<string, TFile>();
+
+		for (const [index, node] of network.nodes.entries()) {
+			const existing = noteGenerator.findExistingNote(node.entity);
+			if (existing) {
+				notes.set(node.entity.id, existing);
+				continue;
+			}
+
+			onProgress?.(`Importing ${index + 1} of ${network.nodes.length}: ${node.entity.caption}`);
+			try {
+				const enrichedEntity = await this.apiClient.fetchWithRelationships(node.entity.id);
+				notes.set(node.entity.id, await noteGenerator.generateNote(enrichedEntity));
+			} catch (error) {
+				// The entity is left off the canvas rather than failing the export
+				console.error('Failed to import entity for canvas:', node.entity.id, error);
+			}
+		}
+
+		return notes;
+	}
+
+	private async writeCanvas(seed: OpenSanctionsEntity, canvas: CanvasData): Promise<TFile> {
+		const folder = this.settings.defaultFolder || 'OpenSanctions';
+		if (!this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+
+		const name = `${seed.caption} Network`.replace(/[<>:"/\\|?*]/g, '').trim();
+		let path = normalizePath(`${folder}/${name}.canvas`);
+		let counter = 1;
+		while (this.app.vault.getAbstractFileByPath(path)) {
+			path = normalizePath(`${folder}/${name} (${counter++}).canvas`);
+		}
+
+		return await this.app.vault.create(path, JSON.stringify(canvas, null, '\t'));
+	}
+}
+
+/**
+ * Lay out the network in horizontal layers by schema, each layer centred under the widest
+ */
+export function buildCanvas(network: NetworkCrawlResult, notes: Map<string, TFile>, seedId: string): CanvasData {
+	const layers: OpenSanctionsEntity[][] = CANVAS_LAYERS.map(() => []);
+	layers.push([]);
+
+	for (const node of network.nodes) {
+		if (!notes.has(node.entity.id)) continue;
+		const layerIndex = CANVAS_LAYERS.findIndex(schemas => schemas.includes(node.entity.schema));
+		layers[layerIndex === -1 ? layers.length - 1 : layerIndex].push(node.entity);
+	}
+
+	const usedLayers = layers.filter(layer => layer.length > 0);
+	const widest = Math.max(...usedLayers.map(layer => layer.length));
+	const layerOf = new Map<string, number>();
+	const positionOf = new Map<string, number>();
+	const nodes: CanvasNode[] = [];
+
+	usedLayers.forEach((layer, layerIndex) => {
+		const offset = (widest - layer.length) * (CARD_WIDTH + HORIZONTAL_GAP) / 2;
+
+		layer.forEach((entity, position) => {
+			const node: CanvasNode = {
+				id: canvasId(entity.id),
+				type: 'file',
+				file: notes.get(entity.id)!.path,
+				x: Math.round(offset + position * (CARD_WIDTH + HORIZONTAL_GAP)),
+				y: layerIndex * (CARD_HEIGHT + VERTICAL_GAP),
+				width: CARD_WIDTH,
+				height: CARD_HEIGHT
+			};
+
+			if ((entity.properties?.topics || []).includes('sanction')) {
+				node.color = SANCTIONED_COLOR;
+			} else if (entity.id === seedId) {
+				node.color = SEED_COLOR;
+			}
+
+			nodes.push(node);
+			layerOf.set(entity.id, layerIndex);
+			positionOf.set(entity.id, position);
+		});
+	});
+
+	const edges = network.edges
+		.filter(edge => layerOf.has(edge.sourceId) && layerOf.has(edge.targetId))
+		.map((edge, index) => buildEdge(edge, index, layerOf, positionOf));
+
+	return { nodes, edges };
+}
+
+function buildEdge(edge: NetworkEdge, index: number, layerOf: Map<string, number>, positionOf: Map<string, number>): CanvasEdge {
+	const fromLayer = layerOf.get(edge.sourceId)!;
+	const toLayer = layerOf.get(edge.targetId)!;
+
+	// Connect facing sides so edges don't cross through cards
+	let fromSide: CanvasEdge['fromSide'] = 'right';
+	let toSide: CanvasEdge['toSide'] = 'left';
+	if (fromLayer < toLayer) {
+		fromSide = 'bottom';
+		toSide = 'top';
+	} else if (fromLayer > toLayer) {
+		fromSide = 'top';
+		toSide = 'bottom';
+	} else if (positionOf.get(edge.sourceId)! > positionOf.get(edge.targetId)!) {
+		fromSide = 'left';
+		toSide = 'right';
+	}
+
+	return {
+		id: `edge-${index}`,
+		fromNode: canvasId(edge.sourceId),
+		fromSide,
+		toNode: canvasId(edge.targetId),
+		toSide,
+		label: RELATIONSHIP_LABELS[edge.kind]
+	};
+}
+
+function canvasId(entityId: string): string {
+	return `entity-${entityId.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+}
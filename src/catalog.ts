@@ -0,0 +1,114 @@
+import { getCountryName } from './utils';
+
+export interface CatalogDataset {
+	name: string;
+	title: string;
+	type: string; // "source", "collection" or "external"
+	entityCount: number;
+	publisher: string;
+	publisherCountry: string;
+	schemata: { name: string; label: string; count: number }[];
+}
+
+export interface CatalogSchema {
+	name: string;
+	label: string;
+	count: number;
+}
+
+// Relationship and detail schemas are not useful as a search filter
+const NON_SEARCHABLE_SCHEMAS = [
+	'Address', 'Associate', 'Directorship', 'Employment', 'Family', 'Identification',
+	'Membership', 'Occupancy', 'Ownership', 'Passport', 'Position', 'Representation',
+	'Sanction', 'Succession', 'UnknownLink', 'Thing', 'Interval'
+];
+
+// Used until the catalog has loaded, or if it cannot be fetched
+export const FALLBACK_SCHEMAS: CatalogSchema[] = [
+	{ name: 'Person', label: 'Person', count: 0 },
+	{ name: 'Company', label: 'Company', count: 0 },
+	{ name: 'LegalEntity', label: 'Legal Entity', count: 0 },
+	{ name: 'Vessel', label: 'Vessel', count: 0 },
+	{ name: 'Airplane', label: 'Airplane', count: 0 },
+	{ name: 'CryptoWallet', label: 'Crypto Wallet', count: 0 }
+];
+
+/**
+ * Normalise the raw /catalog response into dataset records
+ */
+export function parseCatalog(raw: any): CatalogDataset[] {
+	const datasets: any[] = Array.isArray(raw?.datasets) ? raw.datasets : [];
+
+	return datasets
+		.filter(d => d && d.name)
+		.map(d => ({
+			name: d.name,
+			title: d.title || d.name,
+			type: d.type || 'source',
+			entityCount: d.entity_count ?? d.thing_count ?? d.target_count ?? 0,
+			publisher: d.publisher?.name || '',
+			publisherCountry: d.publisher?.country_label || getCountryName(d.publisher?.country) || '',
+			schemata: Array.isArray(d.things?.schemata)
+				? d.things.schemata.map((s: any) => ({ name: s.name, label: s.label || s.name, count: s.count || 0 }))
+				: []
+		}));
+}
+
+/**
+ * Group datasets for the dataset dropdown: collections first, then sources by publisher country
+ */
+export function groupDatasets(datasets: CatalogDataset[]): { label: string; datasets: CatalogDataset[] }[] {
+	const groups = new Map<string, CatalogDataset[]>();
+
+	for (const dataset of datasets) {
+		const label = dataset.type === 'collection'
+			? 'Collections'
+			: dataset.publisherCountry || 'International';
+
+		if (!groups.has(label)) {
+			groups.set(label, []);
+		}
+		groups.get(label)!.push(dataset);
+	}
+
+	return Array.from(groups.entries())
+		.map(([label, items]) => ({
+			label,
+			datasets: items.sort((a, b) => a.title.localeCompare(b.title))
+		}))
+		.sort((a, b) => {
+			if (a.label === 'Collections') return -1;
+			if (b.label === 'Collections') return 1;
+			return a.label.localeCompare(b.label);
+		});
+}
+
+/**
+ * Collect searchable schemas across all datasets, most common first.
+ * Collections repeat the entities of their sources, so only sources are counted.
+ */
+export function collectSchemata(datasets: CatalogDataset[]): CatalogSchema[] {
+	const schemata = new Map<string, CatalogSchema>();
+
+	for (const dataset of datasets) {
+		if (dataset.type === 'collection') continue;
+
+		for (const schema of dataset.schemata) {
+			if (NON_SEARCHABLE_SCHEMAS.includes(schema.name)) continue;
+
+			const existing = schemata.get(schema.name);
+			if (existing) {
+				existing.count += schema.count;
+			} else {
+				schemata.set(schema.name, { ...schema });
+			}
+		}
+	}
+
+	const result = Array.from(schemata.values()).sort((a, b) => b.count - a.count);
+	return result.length > 0 ? result : FALLBACK_SCHEMAS;
+}
+
+export function formatCount(count: number): string {
+	return count > 0 ? ` (${count.toLocaleString()})` : '';
+}
@@ -0,0 +1,635 @@
+import { ItemView, WorkspaceLeaf, Notice, TFile } from 'obsidian';
+import { OpenSanctionsApiClient } from './api-client';
+import { OpenSanctionsEntity, RelationshipKind } from './types';
+import { NetworkCrawler } from './network-crawler';
+import { EntityIndex } from './entity-index';
+import { RELATIONSHIP_LABELS } from './relationship-processor';
+import { getDatasetLabel, getTopicLabels } from './utils';
+
+export const VIEW_TYPE_ENTITY_GRAPH = 'opensanctions-entity-graph';
+
+const NODE_RADIUS = 10;
+
+// Fill colour per schema group
+const SCHEMA_COLORS: Record<string, string> = {
+	Person: '#42a5f5',
+	Company: '#66bb6a',
+	Organization: '#66bb6a',
+	LegalEntity: '#66bb6a',
+	PublicBody: '#26a69a',
+	Vessel: '#ffa726',
+	Airplane: '#ffa726'
+};
+const DEFAULT_COLOR = '#9e9e9e';
+
+// Outline colour for notable topics, most important first
+const TOPIC_COLORS: [string, string][] = [
+	['sanction', '#e53935'],
+	['crime', '#8e24aa'],
+	['role.pep', '#fdd835']
+];
+
+interface GraphNode {
+	entity: OpenSanctionsEntity;
+	x: number;
+	y: number;
+	vx: number;
+	vy: number;
+	expanded: boolean;
+	pinned: boolean;
+}
+
+interface GraphEdge {
+	source: string;
+	target: string;
+	kind: RelationshipKind;
+}
+
+/**
+ * Side panel with a force-directed graph of an entity's OpenSanctions neighbourhood.
+ * Nothing is written to the vault until a node is imported.
+ */
+export class EntityGraphView extends ItemView {
+	private apiClient: OpenSanctionsApiClient;
+	private entityIndex: EntityIndex;
+	private onImport: (entity: OpenSanctionsEntity) => Promise<void>;
+	private crawler: NetworkCrawler;
+
+	private nodes: Map<string, GraphNode> = new Map();
+	private edges: GraphEdge[] = [];
+	private edgeKeys: Set<string> = new Set();
+	private rootId: string | null = null;
+	private loadingId: string | null = null; // Entity of the latest showEntity call still loading
+
+	// View transform: screen = world * scale + offset
+	private scale = 1;
+	private offsetX = 0;
+	private offsetY = 0;
+
+	private animationFrame: number | null = null;
+	private ticksLeft = 0;
+	private hoveredId: string | null = null;
+	private dragging: { nodeId: string | null; startX: number; startY: number; moved: boolean } | null = null;
+	private hideCardTimer: number | null = null;
+
+	constructor(leaf: WorkspaceLeaf, apiClient: OpenSanctionsApiClient, entityIndex: EntityIndex) {
+		super(leaf);
+		this.apiClient = apiClient;
+		this.entityIndex = entityIndex;
+		this.crawler = new NetworkCrawler(apiClient);
+	}
+
+	setHandler(caller: any, handler: (entity: OpenSanctionsEntity) => Promise<void>) {
+		this.onImport = handler.bind(caller);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_ENTITY_GRAPH;
+	}
+
+	getDisplayText(): string {
+		const root = this.rootId ? this.nodes.get(this.rootId) : null;
+		return root ? `OpenSanctions: ${root.entity.caption}` : 'OpenSanctions Graph';
+	}
+
+	getIcon(): string {
+		return 'git-fork';
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass('opensanctions-graph-view');
+
+		this.statusEl = container.createDiv('graph-status');
+		this.statusEl.setText('Open a note with an opensanctions_id to explore its network.');
+
+		this.canvasEl = container.createEl('canvas', { cls: 'graph-canvas' });
+		this.cardEl = container.createDiv('graph-hover-card');
+		this.cardEl.hide();
+		this.cardEl.addEventListener('mouseenter', () => this.cancelHideCard());
+		this.cardEl.addEventListener('mouseleave', () => this.scheduleHideCard());
+
+		this.registerDomEvent(this.canvasEl, 'mousedown', (evt) => this.onMouseDown(evt));
+		this.registerDomEvent(this.canvasEl, 'mousemove', (evt) => this.onMouseMove(evt));
+		this.registerDomEvent(this.canvasEl, 'mouseup', (evt) => this.onMouseUp(evt));
+		this.registerDomEvent(this.canvasEl, 'mouseleave', () => {
+			this.dragging = null;
+			this.setHovered(null);
+		});
+		this.registerDomEvent(this.canvasEl, 'wheel', (evt) => this.onWheel(evt), { passive: false });
+
+		const resizeObserver = new ResizeObserver(() => this.resizeCanvas());
+		resizeObserver.observe(container);
+		this.register(() => resizeObserver.disconnect());
+
+		this.addStyles();
+		this.resizeCanvas();
+	}
+
+	async onClose() {
+		this.stopSimulation();
+		this.cancelHideCard();
+	}
+
+	/**
+	 * Show the neighbourhood of an entity, replacing the current graph
+	 */
+	async showEntity(entityId: string) {
+		if (entityId === this.rootId || entityId === this.loadingId) return;
+		this.loadingId = entityId;
+
+		try {
+			this.statusEl.setText('Loading...');
+			const entity = await this.apiClient.getEntity(entityId);
+
+			// A later call has replaced this one
+			if (this.loadingId !== entityId) return;
+
+			this.nodes.clear();
+			this.edges = [];
+			this.edgeKeys.clear();
+			this.rootId = entityId;
+			this.scale = 1;
+			this.offsetX = this.canvasEl.clientWidth / 2;
+			this.offsetY = this.canvasEl.clientHeight / 2;
+			this.cardEl.hide();
+
+			this.nodes.set(entity.id, { entity, x: 0, y: 0, vx: 0, vy: 0, expanded: false, pinned: true });
+			await this.expand(entity.id);
+		} catch (error) {
+			if (this.loadingId !== entityId) return;
+			console.error('Failed to load entity graph:', entityId, error);
+			this.statusEl.setText(`Could not load graph: ${error.message}`);
+
+			// Showing the same entity again retries
+			if (this.rootId === entityId) this.rootId = null;
+		} finally {
+			if (this.loadingId === entityId) this.loadingId = null;
+		}
+	}
+
+	/**
+	 * Add a node's neighbours to the graph around it
+	 */
+	private async expand(nodeId: string) {
+		const node = this.nodes.get(nodeId);
+		if (!node || node.expanded) return;
+
+		this.statusEl.setText(`Loading relationships of ${node.entity.caption}...`);
+		const links = await this.crawler.getLinks(nodeId);
+
+		// The graph was replaced while loading
+		if (this.nodes.get(nodeId) !== node) return;
+		node.expanded = true;
+
+		links.forEach((link, index) => {
+			if (!this.nodes.has(link.entity.id)) {
+				// Start new nodes on a circle around their parent so the layout unfolds outward
+				const angle = (2 * Math.PI * index) / Math.max(links.length, 1);
+				this.nodes.set(link.entity.id, {
+					entity: link.entity,
+					x: node.x + Math.cos(angle) * 80,
+					y: node.y + Math.sin(angle) * 80,
+					vx: 0,
+					vy: 0,
+					expanded: false,
+					pinned: false
+				});
+			}
+
+			const key = [nodeId, link.entity.id].sort().join('|') + `|${link.key}`;
+			if (!this.edgeKeys.has(key)) {
+				this.edgeKeys.add(key);
+				this.edges.push({ source: nodeId, target: link.entity.id, kind: link.kind });
+			}
+		});
+
+		this.updateStatus();
+		this.startSimulation();
+	}
+
+	/**
+	 * Expand a node the user clicked, reporting a failed lookup instead of throwing
+	 */
+	private expandFromUser(nodeId: string) {
+		this.expand(nodeId).catch(error => {
+			console.error('Failed to expand node:', nodeId, error);
+			new Notice(`Could not load relationships: ${error.message}`);
+			this.updateStatus();
+		});
+	}
+
+	private updateStatus() {
+		const collapsed = Array.from(this.nodes.values()).filter(node => !node.expanded).length;
+		this.statusEl.setText(`${this.nodes.size} entities. Click a node to expand it${collapsed > 0 ? ` (${collapsed} not expanded)` : ''}; drag to move, scroll to zoom.`);
+	}
+
+	// Force simulation
+
+	private startSimulation() {
+		this.ticksLeft = 300;
+		if (this.animationFrame === null) {
+			this.animationFrame = window.requestAnimationFrame(() => this.step());
+		}
+	}
+
+	private stopSimulation() {
+		if (this.animationFrame !== null) {
+			window.cancelAnimationFrame(this.animationFrame);
+			this.animationFrame = null;
+		}
+	}
+
+	private step() {
+		this.animationFrame = null;
+		this.tick();
+		this.draw();
+
+		if (--this.ticksLeft > 0) {
+			this.animationFrame = window.requestAnimationFrame(() => this.step());
+		}
+	}
+
+	/**
+	 * One step of a simple force layout: all nodes repel, edges pull like springs,
+	 * and a weak pull towards the centre keeps disconnected parts in view
+	 */
+	private tick() {
+		const nodes = Array.from(this.nodes.values());
+		const alpha = Math.max(0.05, this.ticksLeft / 300);
+
+		for (let i = 0; i < nodes.length; i++) {
+			for (let j = i + 1; j < nodes.length; j++) {
+				const a = nodes[i];
+				const b = nodes[j];
+				let dx = b.x - a.x;
+				let dy = b.y - a.y;
+				let distanceSq = dx * dx + dy * dy;
+				if (distanceSq < 1) {
+					dx = Math.random() - 0.5;
+					dy = Math.random() - 0.5;
+					distanceSq = 1;
+				}
+				const force = 2000 / distanceSq;
+				const distance = Math.sqrt(distanceSq);
+				const fx = (dx / distance) * force;
+				const fy = (dy / distance) * force;
+				a.vx -= fx;
+				a.vy -= fy;
+				b.vx += fx;
+				b.vy += fy;
+			}
+		}
+
+		for (const edge of this.edges) {
+			const a = this.nodes.get(edge.source);
+			const b = this.nodes.get(edge.target);
+			if (!a || !b) continue;
+			const dx = b.x - a.x;
+			const dy = b.y - a.y;
+			const distance = Math.max(1, Math.sqrt(dx * dx + dy * dy));
+			const force = (distance - 90) * 0.05;
+			const fx = (dx / distance) * force;
+			const fy = (dy / distance) * force;
+			a.vx += fx;
+			a.vy += fy;
+			b.vx -= fx;
+			b.vy -= fy;
+		}
+
+		for (const node of nodes) {
+			node.vx -= node.x * 0.002;
+			node.vy -= node.y * 0.002;
+
+			if (node.pinned || this.dragging?.nodeId === node.entity.id) {
+				node.vx = 0;
+				node.vy = 0;
+				continue;
+			}
+
+			node.x += Math.max(-20, Math.min(20, node.vx * alpha));
+			node.y += Math.max(-20, Math.min(20, node.vy * alpha));
+			node.vx *= 0.6;
+			node.vy *= 0.6;
+		}
+	}
+
+	// Drawing
+
+	private resizeCanvas() {
+		if (!this.canvasEl) return;
+		const parent = this.canvasEl.parentElement!;
+		const width = parent.clientWidth;
+		const height = Math.max(200, parent.clientHeight - this.statusEl.offsetHeight - 8);
+		const ratio = window.devicePixelRatio || 1;
+
+		if (this.offsetX === 0 && this.offsetY === 0) {
+			this.offsetX = width / 2;
+			this.offsetY = height / 2;
+		}
+
+		this.canvasEl.style.width = `${width}px`;
+		this.canvasEl.style.height = `${height}px`;
+		this.canvasEl.width = width * ratio;
+		this.canvasEl.height = height * ratio;
+		this.draw();
+	}
+
+	private draw() {
+		const ctx = this.canvasEl?.getContext('2d');
+		if (!ctx) return;
+
+		const ratio = window.devicePixelRatio || 1;
+		const style = getComputedStyle(this.canvasEl);
+		const textColor = style.getPropertyValue('--text-normal').trim() || '#333';
+		const mutedColor = style.getPropertyValue('--text-faint').trim() || '#999';
+
+		ctx.setTransform(1, 0, 0, 1, 0, 0);
+		ctx.clearRect(0, 0, this.canvasEl.width, this.canvasEl.height);
+		ctx.setTransform(ratio * this.scale, 0, 0, ratio * this.scale, ratio * this.offsetX, ratio * this.offsetY);
+
+		// Edges, labelled when either end is hovered
+		ctx.lineWidth = 1 / this.scale;
+		ctx.font = `${10 / this.scale}px sans-serif`;
+		ctx.textAlign = 'center';
+		for (const edge of this.edges) {
+			const a = this.nodes.get(edge.source);
+			const b = this.nodes.get(edge.target);
+			if (!a || !b) continue;
+
+			ctx.strokeStyle = mutedColor;
+			ctx.beginPath();
+			ctx.moveTo(a.x, a.y);
+			ctx.lineTo(b.x, b.y);
+			ctx.stroke();
+
+			if (this.hoveredId === edge.source || this.hoveredId === edge.target) {
+				ctx.fillStyle = mutedColor;
+				ctx.fillText(RELATIONSHIP_LABELS[edge.kind], (a.x + b.x) / 2, (a.y + b.y) / 2 - 3 / this.scale);
+			}
+		}
+
+		// Nodes
+		ctx.font = `${11 / this.scale}px sans-serif`;
+		for (const node of this.nodes.values()) {
+			const radius = node.entity.id === this.rootId ? NODE_RADIUS * 1.4 : NODE_RADIUS;
+			const topics = node.entity.properties?.topics || [];
+			const topicColor = TOPIC_COLORS.find(([topic]) => topics.includes(topic))?.[1];
+
+			ctx.beginPath();
+			ctx.arc(node.x, node.y, radius, 0, 2 * Math.PI);
+			ctx.fillStyle = SCHEMA_COLORS[node.entity.schema] || DEFAULT_COLOR;
+			ctx.fill();
+
+			if (topicColor) {
+				ctx.lineWidth = 3;
+				ctx.strokeStyle = topicColor;
+				ctx.stroke();
+			}
+
+			// Dashed ring: more to discover by expanding
+			if (!node.expanded) {
+				ctx.setLineDash([3, 3]);
+				ctx.lineWidth = 1;
+				ctx.strokeStyle = mutedColor;
+				ctx.beginPath();
+				ctx.arc(node.x, node.y, radius + 4, 0, 2 * Math.PI);
+				ctx.stroke();
+				ctx.setLineDash([]);
+			}
+
+			if (this.scale > 0.6 || node.entity.id === this.hoveredId) {
+				ctx.fillStyle = textColor;
+				ctx.fillText(truncate(node.entity.caption, 28), node.x, node.y + radius + 14 / this.scale);
+			}
+		}
+	}
+
+	// Interaction
+
+	private toWorld(evt: MouseEvent): { x: number; y: number } {
+		const rect = this.canvasEl.getBoundingClientRect();
+		return {
+			x: (evt.clientX - rect.left - this.offsetX) / this.scale,
+			y: (evt.clientY - rect.top - this.offsetY) / this.scale
+		};
+	}
+
+	private nodeAt(evt: MouseEvent): GraphNode | null {
+		const { x, y } = this.toWorld(evt);
+		let closest: GraphNode | null = null;
+		let closestDistance = (NODE_RADIUS + 4) / Math.min(1, this.scale);
+
+		for (const node of this.nodes.values()) {
+			const distance = Math.hypot(node.x - x, node.y - y);
+			if (distance < closestDistance) {
+				closest = node;
+				closestDistance = distance;
+			}
+		}
+
+		return closest;
+	}
+
+	private onMouseDown(evt: MouseEvent) {
+		const node = this.nodeAt(evt);
+		this.dragging = { nodeId: node?.entity.id || null, startX: evt.clientX, startY: evt.clientY, moved: false };
+	}
+
+	private onMouseMove(evt: MouseEvent) {
+		if (this.dragging) {
+			const dx = evt.clientX - this.dragging.startX;
+			const dy = evt.clientY - this.dragging.startY;
+			if (!this.dragging.moved && Math.hypot(dx, dy) < 4) return;
+			this.dragging.moved = true;
+
+			if (this.dragging.nodeId) {
+				// Dragged nodes stay where they are dropped
+				const node = this.nodes.get(this.dragging.nodeId)!;
+				const { x, y } = this.toWorld(evt);
+				node.x = x;
+				node.y = y;
+				node.pinned = true;
+				this.startSimulation();
+			} else {
+				this.offsetX += evt.movementX;
+				this.offsetY += evt.movementY;
+				this.draw();
+			}
+			this.cardEl.hide();
+			return;
+		}
+
+		const node = this.nodeAt(evt);
+		this.setHovered(node?.entity.id || null);
+		this.canvasEl.style.cursor = node ? 'pointer' : 'grab';
+
+		if (node) {
+			this.showCard(node, evt);
+		}
+	}
+
+	private onMouseUp(evt: MouseEvent) {
+		const dragging = this.dragging;
+		this.dragging = null;
+		if (!dragging || dragging.moved || !dragging.nodeId) return;
+
+		// A click without dragging expands the node
+		this.expandFromUser(dragging.nodeId);
+	}
+
+	private onWheel(evt: WheelEvent) {
+		evt.preventDefault();
+		const rect = this.canvasEl.getBoundingClientRect();
+		const mouseX = evt.clientX - rect.left;
+		const mouseY = evt.clientY - rect.top;
+		const factor = evt.deltaY < 0 ? 1.1 : 1 / 1.1;
+		const scale = Math.max(0.2, Math.min(4, this.scale * factor));
+
+		// Zoom around the pointer
+		this.offsetX = mouseX - (mouseX - this.offsetX) * (scale / this.scale);
+		this.offsetY = mouseY - (mouseY - this.offsetY) * (scale / this.scale);
+		this.scale = scale;
+		this.draw();
+	}
+
+	private setHovered(nodeId: string | null) {
+		if (nodeId === this.hoveredId) return;
+		this.hoveredId = nodeId;
+		if (!nodeId) this.scheduleHideCard();
+		this.draw();
+	}
+
+	// Hover card
+
+	private showCard(node: GraphNode, evt: MouseEvent) {
+		this.cancelHideCard();
+		const entity = node.entity;
+
+		this.cardEl.empty();
+		this.cardEl.createEl('div', { text: entity.caption, cls: 'graph-card-title' });
+		this.cardEl.createEl('div', { text: entity.schema, cls: 'graph-card-schema' });
+
+		const topics = getTopicLabels(entity.properties?.topics || []);
+		if (topics.length > 0) {
+			this.cardEl.createEl('div', { text: topics.join(', '), cls: 'graph-card-topics' });
+		}
+
+		if (entity.datasets?.length) {
+			const more = entity.datasets.length > 4 ? ` +${entity.datasets.length - 4} more` : '';
+			this.cardEl.createEl('div', {
+				text: `${entity.datasets.slice(0, 4).map(getDatasetLabel).join(', ')}${more}`,
+				cls: 'graph-card-datasets'
+			});
+		}
+
+		const buttons = this.cardEl.createDiv('graph-card-buttons');
+		const existingNote = this.entityIndex.findByEntity(entity);
+		if (existingNote) {
+			const openButton = buttons.createEl('button', { text: 'Open Note' });
+			openButton.addEventListener('click', () => this.openNote(existingNote));
+		} else {
+			const importButton = buttons.createEl('button', { text: 'Import', cls: 'mod-cta' });
+			importButton.addEventListener('click', async () => {
+				importButton.disabled = true;
+				importButton.setText('Importing...');
+				await this.onImport?.(entity);
+				this.cardEl.hide();
+			});
+		}
+
+		if (!node.expanded) {
+			const expandButton = buttons.createEl('button', { text: 'Expand' });
+			expandButton.addEventListener('click', () => {
+				this.cardEl.hide();
+				this.expandFromUser(entity.id);
+			});
+		}
+
+		// Place the card next to the pointer, inside the panel
+		const container = this.cardEl.parentElement!.getBoundingClientRect();
+		const left = Math.min(evt.clientX - container.left + 12, container.width - 240);
+		this.cardEl.style.left = `${Math.max(0, left)}px`;
+		this.cardEl.style.top = `${evt.clientY - container.top + 12}px`;
+		this.cardEl.show();
+	}
+
+	private scheduleHideCard() {
+		this.cancelHideCard();
+		this.hideCardTimer = window.setTimeout(() => this.cardEl.hide(), 400);
+	}
+
+	private cancelHideCard() {
+		if (this.hideCardTimer !== null) {
+			window.clearTimeout(this.hideCardTimer);
+			this.hideCardTimer = null;
+		}
+	}
+
+	private openNote(file: TFile) {
+		this.app.workspace.getLeaf(false).openFile(file);
+	}
+
+	private addStyles() {
+		const styleEl = document.createElement('style');
+		styleEl.textContent = `
+			.opensanctions-graph-view {
+				position: relative;
+				overflow: hidden;
+			}
+
+			.graph-status {
+				font-size: 0.85em;
+				color: var(--text-muted);
+				padding: 4px 0;
+			}
+
+			.graph-canvas {
+				display: block;
+				cursor: grab;
+			}
+
+			.graph-hover-card {
+				position: absolute;
+				width: 230px;
+				padding: 8px 10px;
+				background: var(--background-primary);
+				border: 1px solid var(--background-modifier-border);
+				border-radius: 6px;
+				box-shadow: var(--shadow-s);
+				font-size: 0.85em;
+				z-index: 10;
+			}
+
+			.graph-card-title {
+				font-weight: 600;
+			}
+
+			.graph-card-schema,
+			.graph-card-datasets {
+				color: var(--text-muted);
+			}
+
+			.graph-card-topics {
+				color: var(--text-error);
+			}
+
+			.graph-card-buttons {
+				display: flex;
+				gap: 6px;
+				margin-top: 6px;
+			}
+		`;
+		document.head.appendChild(styleEl);
+	}
+
+	// Properties to store DOM references
+	private statusEl: HTMLDivElement;
+	private canvasEl: HTMLCanvasElement;
+	private cardEl: HTMLDivElement;
+}
+
+function truncate(text: string, length: number): string {
+	return text.length > length ? `${text.substring(0, length - 1)}…` : text;
+}
@@ -0,0 +1,101 @@
+import { App, Plugin, TAbstractFile, TFile } from 'obsidian';
+import { OpenSanctionsEntity } from './types';
+
+/**
+ * Vault-wide index of notes by their `opensanctions_id` frontmatter value.
+ * Kept up to date from metadata cache and vault events.
+ */
+export class EntityIndex {
+	private app: App;
+	private idToPath: Map<string, string> = new Map();
+	private pathToId: Map<string, string> = new Map();
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * Register vault and metadata cache listeners on the plugin so they are cleaned up on unload
+	 */
+	register(plugin: Plugin) {
+		plugin.registerEvent(this.app.metadataCache.on('changed', (file) => {
+			this.indexFile(file);
+		}));
+
+		plugin.registerEvent(this.app.vault.on('delete', (file) => {
+			this.removePath(file.path);
+		}));
+
+		plugin.registerEvent(this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+			this.removePath(oldPath);
+			if (file instanceof TFile) {
+				this.indexFile(file);
+			}
+		}));
+
+		// The metadata cache may not be ready at load time, so build once it has resolved
+		this.app.workspace.onLayoutReady(() => this.rebuild());
+	}
+
+	rebuild() {
+		this.idToPath.clear();
+		this.pathToId.clear();
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			this.indexFile(file);
+		}
+	}
+
+	indexFile(file: TFile) {
+		if (file.extension !== 'md') return;
+
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const entityId = frontmatter?.opensanctions_id ? String(frontmatter.opensanctions_id) : null;
+
+		this.removePath(file.path);
+		if (entityId) {
+			this.add(entityId, file);
+		}
+	}
+
+	/**
+	 * Record a note for an entity ID straight away, without waiting for the metadata cache
+	 */
+	add(entityId: string, file: TFile) {
+		this.idToPath.set(entityId, file.path);
+		this.pathToId.set(file.path, entityId);
+	}
+
+	private removePath(path: string) {
+		const entityId = this.pathToId.get(path);
+		if (entityId === undefined) return;
+
+		this.pathToId.delete(path);
+		if (this.idToPath.get(entityId) === path) {
+			this.idToPath.delete(entityId);
+		}
+	}
+
+	findById(entityId: string): TFile | null {
+		const path = this.idToPath.get(entityId);
+		if (!path) return null;
+
+		const file = this.app.vault.getAbstractFileByPath(path);
+		return file instanceof TFile ? file : null;
+	}
+
+	/**
+	 * Find an existing note for an entity, matching its ID or any of its referents
+	 * (the IDs of records that were merged into it).
+	 */
+	findByEntity(entity: OpenSanctionsEntity): TFile | null {
+		const ids = [entity.id, ...(entity.referents || [])];
+
+		for (const id of ids) {
+			const file = this.findById(id);
+			if (file) return file;
+		}
+
+		return null;
+	}
+}
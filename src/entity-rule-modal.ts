@@ -0,0 +1,99 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+import { EntityRuleConditions } from './types';
+import { NoteSuggestModal } from './note-suggest-modal';
+
+// The value a rule produces when it matches, e.g. a folder path
+export interface RuleTargetField<T> {
+	key: keyof T & string;
+	set: (rule: T, value: string) => void;
+	name: string;
+	desc: string;
+	placeholder: string;
+	files?: () => TFile[]; // Offer a picker over these notes, for targets that are a note path
+}
+
+/**
+ * Edit the conditions of an entity rule and the value it produces
+ */
+export class EntityRuleModal<T extends EntityRuleConditions> extends Modal {
+	private title: string;
+	private rule: T;
+	private target: RuleTargetField<T>;
+	private onSave: (rule: T) => void;
+
+	constructor(app: App, title: string, rule: T, target: RuleTargetField<T>, onSave: (rule: T) => void) {
+		super(app);
+		this.title = title;
+		// Edit a copy so cancelling leaves the rule unchanged
+		this.rule = JSON.parse(JSON.stringify(rule));
+		this.target = target;
+		this.onSave = onSave;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: this.title });
+		contentEl.createEl('p', {
+			text: 'The rule applies to entities matching every filled-in condition. Separate several values with commas; an entity needs one of them.',
+			cls: 'setting-item-description'
+		});
+
+		this.addListSetting('Entity Types', 'Schemas, e.g. "Person, Company"', 'schemas');
+		this.addListSetting('Topics', 'e.g. "sanction, role.pep"', 'topics');
+		this.addListSetting('Datasets', 'Dataset names, e.g. "us_ofac_sdn"', 'datasets');
+		this.addListSetting('Countries', 'Country codes or names, e.g. "ru, Belarus"', 'countries');
+
+		const targetSetting = new Setting(contentEl)
+			.setName(this.target.name)
+			.setDesc(this.target.desc)
+			.addText(text => text
+				.setPlaceholder(this.target.placeholder)
+				.setValue(String(this.rule[this.target.key] || ''))
+				.onChange(value => {
+					this.target.set(this.rule, value.trim());
+				}));
+
+		const files = this.target.files;
+		if (files) {
+			targetSetting.addExtraButton(button => button
+				.setIcon('folder-open')
+				.setTooltip(`Choose ${this.target.name.toLowerCase()}`)
+				.onClick(() => {
+					new NoteSuggestModal(this.app, files(), this.target.placeholder, (file) => {
+						this.target.set(this.rule, file.path);
+						this.onOpen();
+					}).open();
+				}));
+		}
+
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+
+		const saveButton = buttonContainer.createEl('button', { text: 'Save Rule', cls: 'mod-cta' });
+		saveButton.addEventListener('click', () => {
+			this.onSave(this.rule);
+			this.close();
+		});
+	}
+
+	private addListSetting(name: string, desc: string, key: keyof EntityRuleConditions) {
+		new Setting(this.contentEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => text
+				.setPlaceholder('Any')
+				.setValue(this.rule[key].join(', '))
+				.onChange(value => {
+					this.rule[key] = value.split(',').map(v => v.trim()).filter(Boolean);
+				}));
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
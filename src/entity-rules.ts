@@ -0,0 +1,94 @@
+import { OpenSanctionsEntity, EntityRuleConditions, FolderRule, TemplateRule, PluginSettings } from './types';
+import { COUNTRY_PROPERTIES, getFilenameTokens } from './filename';
+import { getCountryCode, sanitizeFilename } from './utils';
+
+export const FOLDER_TOKENS = ['caption', 'schema', 'id', 'birthYear', 'country', 'dataset'];
+
+/**
+ * Lowercase country codes of an entity, from all its country-like properties
+ */
+export function getEntityCountries(entity: OpenSanctionsEntity): string[] {
+	const countries = new Set<string>();
+	for (const prop of COUNTRY_PROPERTIES) {
+		(entity.properties?.[prop] || [])
+			.filter(value => typeof value === 'string')
+			.forEach(value => countries.add(value.toLowerCase()));
+	}
+	return Array.from(countries);
+}
+
+/**
+ * Whether an entity meets a rule's conditions
+ */
+export function matchesRule(entity: OpenSanctionsEntity, rule: EntityRuleConditions): boolean {
+	const topics = entity.properties?.topics || [];
+	const datasets = entity.datasets || [];
+	const countries = getEntityCountries(entity);
+
+	if (rule.schemas.length > 0 && !rule.schemas.includes(entity.schema)) return false;
+	if (rule.topics.length > 0 && !rule.topics.some(topic => topics.includes(topic))) return false;
+	if (rule.datasets.length > 0 && !rule.datasets.some(dataset => datasets.includes(dataset))) return false;
+	if (rule.countries.length > 0 && !rule.countries.some(country => countries.includes(getCountryCode(country).toLowerCase()))) return false;
+
+	return true;
+}
+
+/**
+ * The first rule, in order, that matches the entity
+ */
+export function findMatchingRule<T extends EntityRuleConditions>(entity: OpenSanctionsEntity, rules: T[]): T | null {
+	return rules.find(rule => matchesRule(entity, rule)) || null;
+}
+
+/**
+ * Short description of a rule's conditions for settings lists
+ */
+export function describeRuleConditions(rule: EntityRuleConditions): string {
+	const parts: string[] = [];
+	if (rule.schemas.length > 0) parts.push(`type ${rule.schemas.join(' or ')}`);
+	if (rule.topics.length > 0) parts.push(`topic ${rule.topics.join(' or ')}`);
+	if (rule.datasets.length > 0) parts.push(`dataset ${rule.datasets.join(' or ')}`);
+	if (rule.countries.length > 0) parts.push(`country ${rule.countries.join(' or ')}`);
+	return parts.length > 0 ? `Entities with ${parts.join(', ')}` : 'Any entity';
+}
+
+export function createEmptyConditions(): EntityRuleConditions {
+	return { schemas: [], topics: [], datasets: [], countries: [] };
+}
+
+/**
+ * Fill in a folder path pattern. Each segment is sanitized and segments left empty are dropped,
+ * so "Entities/{schema}/{country}" gives "Entities/Vessel" for a vessel without a country.
+ * {dataset} is the first of the entity's datasets the rule names, or its first dataset.
+ */
+export function renderFolderPattern(pattern: string, entity: OpenSanctionsEntity, rule?: EntityRuleConditions): string {
+	const datasets = entity.datasets || [];
+	const tokens: Record<string, string> = {
+		...getFilenameTokens(entity),
+		dataset: datasets.find(dataset => rule?.datasets.includes(dataset)) || datasets[0] || ''
+	};
+
+	return pattern
+		.split('/')
+		.map(segment => sanitizeFilename(segment.replace(/\{(\w+)\}/g, (match, token) => token in tokens ? tokens[token] : match)))
+		.filter(Boolean)
+		.join('/');
+}
+
+/**
+ * Folder a new note for the entity goes to: the first matching folder rule, or the default folder
+ */
+export function getDestinationFolder(entity: OpenSanctionsEntity, settings: PluginSettings): string {
+	const rule = findMatchingRule<FolderRule>(entity, settings.folderRules || []);
+	const folder = rule ? renderFolderPattern(rule.folder, entity, rule) : '';
+	return folder || settings.defaultFolder || 'OpenSanctions';
+}
+
+/**
+ * Template for the entity's note body: the first matching template rule, or the template set
+ * for its schema. Empty when the default body is used.
+ */
+export function getTemplatePath(entity: OpenSanctionsEntity, settings: PluginSettings): string {
+	const rule = findMatchingRule<TemplateRule>(entity, settings.templateRules || []);
+	return rule?.template || settings.templates[entity.schema] || '';
+}
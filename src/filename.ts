@@ -0,0 +1,72 @@
+import { OpenSanctionsEntity, FilenameSettings } from './types';
+import { getCountryName, sanitizeFilename } from './utils';
+
+export const FILENAME_TOKENS = ['caption', 'schema', 'id', 'birthYear', 'country'];
+
+// Properties each token is read from, first non-empty wins
+const YEAR_PROPERTIES = ['birthDate', 'incorporationDate', 'buildDate'];
+export const COUNTRY_PROPERTIES = ['country', 'nationality', 'citizenship', 'jurisdiction', 'flag'];
+
+/**
+ * Values of the filename tokens for an entity. Tokens the entity has no data for are empty.
+ */
+export function getFilenameTokens(entity: OpenSanctionsEntity): Record<string, string> {
+	const properties = entity.properties || {};
+	const first = (props: string[]) => {
+		for (const prop of props) {
+			const value = (properties[prop] || []).find(v => typeof v === 'string' && v.trim());
+			if (value) return value.trim();
+		}
+		return '';
+	};
+
+	const year = first(YEAR_PROPERTIES).match(/^\d{4}/);
+
+	return {
+		caption: entity.caption || properties.name?.[0] || entity.id,
+		schema: entity.schema || '',
+		id: entity.id,
+		birthYear: year ? year[0] : '',
+		country: getCountryName(first(COUNTRY_PROPERTIES))
+	};
+}
+
+/**
+ * Fill in a filename pattern. Brackets left empty by missing tokens are dropped,
+ * so "{caption} ({birthYear})" gives "Acme Ltd" for a company without one.
+ */
+export function renderFilenamePattern(pattern: string, entity: OpenSanctionsEntity): string {
+	const tokens = getFilenameTokens(entity);
+	const rendered = pattern
+		.replace(/\{(\w+)\}/g, (match, token) => token in tokens ? tokens[token] : match)
+		.replace(/\(\s*[,;-]?\s*\)/g, '')
+		.replace(/\s+/g, ' ')
+		.replace(/^[\s,;_-]+|[\s,;_-]+$/g, '');
+
+	return sanitizeFilename(rendered) || sanitizeFilename(tokens.caption) || entity.id;
+}
+
+/**
+ * The note name for an entity under the filename settings, without extension
+ */
+export function getNoteBasename(entity: OpenSanctionsEntity, settings: FilenameSettings): string {
+	const pattern = settings.schemaPatterns[entity.schema] || settings.pattern || '{caption}';
+	return renderFilenamePattern(pattern, entity);
+}
+
+/**
+ * Suffixes that tell this entity apart from another with the same name, most readable first.
+ * Attributes already in the name are skipped; the ID always comes last as it is unique.
+ */
+export function getDisambiguators(entity: OpenSanctionsEntity, basename: string): string[] {
+	const tokens = getFilenameTokens(entity);
+	const attributes = [tokens.birthYear, tokens.country].filter(value => value && !basename.includes(value));
+
+	const suffixes = [...attributes];
+	if (attributes.length > 1) {
+		suffixes.push(attributes.join(', '));
+	}
+	suffixes.push(entity.id);
+
+	return suffixes.map(sanitizeFilename).filter(Boolean);
+}
@@ -0,0 +1,155 @@
+import { OpenSanctionsApiClient } from './api-client';
+import { OpenSanctionsEntity, NetworkImportSettings, RelationshipKind } from './types';
+import { RELATIONSHIP_SCHEMAS, RelationshipProcessor, extractRelationships } from './relationship-processor';
+
+export interface NetworkNode {
+	entity: OpenSanctionsEntity;
+	depth: number;          // Hops from the seed entity
+	via: string | null;     // ID of the entity this one was reached from
+}
+
+export interface NetworkEdge {
+	sourceId: string;
+	targetId: string;
+	kind: RelationshipKind; // As seen from the source
+}
+
+// A neighbouring entity and how it is linked
+export interface NetworkLink {
+	entity: OpenSanctionsEntity;
+	kind: RelationshipKind;
+	key: string;            // Identifies the underlying relationship so both directions count once
+}
+
+export interface NetworkCrawlResult {
+	nodes: NetworkNode[];   // Seed first, then in breadth-first order
+	edges: NetworkEdge[];   // Links between entities in the result
+	truncated: boolean;     // The entity limit was reached before the crawl finished
+	filtered: number;       // Neighbours skipped by the schema and topic filters
+}
+
+export interface NetworkCrawlProgress {
+	found: number;
+	queued: number;
+	depth: number;
+}
+
+/**
+ * Breadth-first crawl of the adjacency graph around a seed entity
+ */
+export class NetworkCrawler {
+	private apiClient: OpenSanctionsApiClient;
+	private processor: RelationshipProcessor;
+
+	constructor(apiClient: OpenSanctionsApiClient) {
+		this.apiClient = apiClient;
+		this.processor = new RelationshipProcessor(apiClient);
+	}
+
+	async crawl(
+		seedId: string,
+		options: NetworkImportSettings,
+		onProgress?: (progress: NetworkCrawlProgress) => void,
+		isCancelled?: () => boolean
+	): Promise<NetworkCrawlResult> {
+		const seed = await this.apiClient.getEntity(seedId);
+		const nodes = new Map<string, NetworkNode>([[seed.id, { entity: seed, depth: 0, via: null }]]);
+		const skipped = new Set<string>();
+		const edges = new Map<string, NetworkEdge>();
+		const queue: NetworkNode[] = [nodes.get(seed.id)!];
+		let truncated = false;
+
+		while (queue.length > 0 && !isCancelled?.()) {
+			const current = queue.shift()!;
+			if (current.depth >= options.maxDepth) continue;
+
+			onProgress?.({ found: nodes.size, queued: queue.length, depth: current.depth + 1 });
+
+			const links = await this.getLinks(current.entity.id);
+			for (const { entity: neighbour } of links) {
+				if (nodes.has(neighbour.id) || skipped.has(neighbour.id)) continue;
+
+				if (!this.passesFilters(neighbour, options)) {
+					skipped.add(neighbour.id);
+					continue;
+				}
+
+				if (nodes.size >= options.maxEntities) {
+					truncated = true;
+					break;
+				}
+
+				const node = { entity: neighbour, depth: current.depth + 1, via: current.entity.id };
+				nodes.set(neighbour.id, node);
+				queue.push(node);
+			}
+
+			// Record links to every entity that made it into the network
+			for (const link of links) {
+				if (nodes.has(link.entity.id) && !edges.has(link.key)) {
+					edges.set(link.key, { sourceId: current.entity.id, targetId: link.entity.id, kind: link.kind });
+				}
+			}
+
+			if (truncated) break;
+		}
+
+		return {
+			nodes: Array.from(nodes.values()),
+			edges: Array.from(edges.values()),
+			truncated,
+			filtered: skipped.size
+		};
+	}
+
+	/**
+	 * Entities one hop away, resolving the far end of each relationship entity
+	 */
+	async getNeighbours(entityId: string): Promise<OpenSanctionsEntity[]> {
+		const neighbours = new Map<string, OpenSanctionsEntity>();
+		for (const link of await this.getLinks(entityId)) {
+			neighbours.set(link.entity.id, link.entity);
+		}
+		return Array.from(neighbours.values());
+	}
+
+	/**
+	 * Neighbouring entities with the kind of relationship to each
+	 */
+	async getLinks(entityId: string): Promise<NetworkLink[]> {
+		const adjacent = await this.apiClient.getAdjacent(entityId);
+		const links: NetworkLink[] = [];
+
+		// Directly referenced entities (e.g. a parent company)
+		for (const item of adjacent) {
+			if (item?.id && item.id !== entityId && !RELATIONSHIP_SCHEMAS[item.schema]) {
+				links.push({ entity: item, kind: 'relatedTo', key: [entityId, item.id].sort().join('|') });
+			}
+		}
+
+		const relationships = await this.processor.resolve(extractRelationships(entityId, adjacent), adjacent);
+		for (const rel of relationships) {
+			if (rel.targetId && rel.target) {
+				// A relationship entity can link several pairs of entities, e.g. joint owners
+				links.push({ entity: rel.target, kind: rel.kind, key: `${rel.relationship.id}|${[entityId, rel.targetId].sort().join('|')}` });
+			}
+		}
+
+		return links;
+	}
+
+	private passesFilters(entity: OpenSanctionsEntity, options: NetworkImportSettings): boolean {
+		if (options.schemas.length > 0 && !options.schemas.includes(entity.schema)) {
+			return false;
+		}
+
+		if (options.topics.length > 0) {
+			const topics = entity.properties?.topics || [];
+			if (!options.topics.some(topic => topics.includes(topic))) {
+				return false;
+			}
+		}
+
+		return true;
+	}
+}
@@ -0,0 +1,278 @@
+import { App, Modal, Setting, Notice } from 'obsidian';
+import { OpenSanctionsApiClient } from './api-client';
+import { PluginSettings, OpenSanctionsEntity, NetworkImportSettings } from './types';
+import { NetworkCrawler, NetworkCrawlResult } from './network-crawler';
+import { EntityIndex } from './entity-index';
+
+export const NETWORK_SCHEMAS = ['Person', 'Company', 'Organization', 'LegalEntity', 'PublicBody', 'Vessel', 'Airplane'];
+
+export class NetworkImportModal extends Modal {
+	private apiClient: OpenSanctionsApiClient;
+	private entityIndex: EntityIndex;
+	private seed: Pick<OpenSanctionsEntity, 'id' | 'caption'>; // Only what's needed before the crawl fetches it
+	private options: NetworkImportSettings;
+	private onImport: (entities: OpenSanctionsEntity[]) => void;
+	private result: NetworkCrawlResult | null = null;
+	private isRunning = false;
+	private cancelled = false;
+
+	constructor(app: App, apiClient: OpenSanctionsApiClient, settings: PluginSettings, entityIndex: EntityIndex, seed: Pick<OpenSanctionsEntity, 'id' | 'caption'>) {
+		super(app);
+		this.apiClient = apiClient;
+		this.entityIndex = entityIndex;
+		this.seed = seed;
+		// Work on a copy so adjustments here don't change the defaults
+		this.options = {
+			...settings.networkImportSettings,
+			schemas: [...settings.networkImportSettings.schemas],
+			topics: [...settings.networkImportSettings.topics]
+		};
+	}
+
+	setHandler(caller: any, handler: (entities: OpenSanctionsEntity[]) => void) {
+		this.onImport = handler.bind(caller);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Import Network - OpenSanctions' });
+		contentEl.createEl('p', {
+			text: `Crawl the relationships around ${this.seed.caption} and create a linked note for every entity found.`,
+			cls: 'setting-item-description'
+		});
+
+		this.createOptions(contentEl);
+		this.previewContainer = contentEl.createDiv('network-preview');
+		this.renderPreview();
+		this.addStyles();
+	}
+
+	private createOptions(container: HTMLElement) {
+		new Setting(container)
+			.setName('Depth')
+			.setDesc('Number of hops to follow from the starting entity')
+			.addSlider(slider => slider
+				.setLimits(1, 4, 1)
+				.setValue(this.options.maxDepth)
+				.setDynamicTooltip()
+				.onChange((value) => {
+					this.options.maxDepth = value;
+					this.clearPreview();
+				}));
+
+		new Setting(container)
+			.setName('Maximum Entities')
+			.setDesc('Stop crawling once this many entities have been found')
+			.addText(text => text
+				.setValue(String(this.options.maxEntities))
+				.onChange((value) => {
+					const parsed = parseInt(value);
+					if (!isNaN(parsed) && parsed > 0) {
+						this.options.maxEntities = parsed;
+						this.clearPreview();
+					}
+				}));
+
+		const schemaSetting = new Setting(container)
+			.setName('Entity Types')
+			.setDesc('Only follow these types. Leave all unticked to follow every type.');
+		const schemaList = schemaSetting.controlEl.createDiv('network-schema-list');
+		for (const schema of NETWORK_SCHEMAS) {
+			const label = schemaList.createEl('label');
+			const checkbox = label.createEl('input', { type: 'checkbox' });
+			checkbox.checked = this.options.schemas.includes(schema);
+			checkbox.addEventListener('change', () => {
+				this.options.schemas = checkbox.checked
+					? [...this.options.schemas, schema]
+					: this.options.schemas.filter(s => s !== schema);
+				this.clearPreview();
+			});
+			label.createEl('span', { text: schema });
+		}
+
+		new Setting(container)
+			.setName('Topics')
+			.setDesc('Only follow entities with one of these topics, e.g. "sanction, role.pep". Leave empty for all.')
+			.addText(text => text
+				.setPlaceholder('sanction, role.pep')
+				.setValue(this.options.topics.join(', '))
+				.onChange((value) => {
+					this.options.topics = value.split(',').map(t => t.trim()).filter(Boolean);
+					this.clearPreview();
+				}));
+	}
+
+	private clearPreview() {
+		if (this.isRunning || !this.result) return;
+		this.result = null;
+		this.renderPreview();
+	}
+
+	private renderPreview() {
+		this.previewContainer.empty();
+
+		if (!this.result) {
+			new Setting(this.previewContainer)
+				.addButton(button => button
+					.setButtonText('Preview Network')
+					.setCta()
+					.onClick(() => {
+						this.runCrawl();
+					}));
+			return;
+		}
+
+		const { nodes, truncated, filtered } = this.result;
+		const existing = nodes.filter(node => this.entityIndex.findByEntity(node.entity)).length;
+
+		const summary = this.previewContainer.createDiv('network-summary');
+		summary.createEl('p', {
+			text: `${nodes.length} entit${nodes.length === 1 ? 'y' : 'ies'} found: ${this.formatSchemaCounts()}.`
+		});
+		if (existing > 0) {
+			summary.createEl('p', { text: `${existing} already in the vault will be updated.` });
+		}
+		if (truncated) {
+			summary.createEl('p', {
+				text: `Stopped at the limit of ${this.options.maxEntities} entities; the network is larger.`,
+				cls: 'mod-warning'
+			});
+		}
+		if (filtered > 0) {
+			summary.createEl('p', { text: `${filtered} neighbours skipped by the type and topic filters.` });
+		}
+
+		const list = this.previewContainer.createDiv('network-entity-list');
+		for (const node of nodes) {
+			const row = list.createDiv('network-entity-row');
+			row.createEl('span', { text: node.entity.caption, cls: 'network-entity-caption' });
+			row.createEl('span', {
+				text: `${node.entity.schema} · ${node.depth === 0 ? 'start' : `${node.depth} hop${node.depth === 1 ? '' : 's'}`}`,
+				cls: 'network-entity-meta'
+			});
+		}
+
+		new Setting(this.previewContainer)
+			.addButton(button => button
+				.setButtonText('Back')
+				.onClick(() => {
+					this.result = null;
+					this.renderPreview();
+				}))
+			.addButton(button => button
+				.setButtonText(`Import ${nodes.length} Notes`)
+				.setCta()
+				.onClick(() => {
+					this.importNetwork();
+				}));
+	}
+
+	private async runCrawl() {
+		if (this.isRunning) return;
+
+		this.isRunning = true;
+		this.cancelled = false;
+		this.previewContainer.empty();
+
+		const progressText = this.previewContainer.createEl('p', { text: 'Crawling network...' });
+		const cancelButton = this.previewContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => {
+			this.cancelled = true;
+		});
+
+		try {
+			const crawler = new NetworkCrawler(this.apiClient);
+			this.result = await crawler.crawl(
+				this.seed.id,
+				this.options,
+				(progress) => progressText.setText(`Crawling hop ${progress.depth}: ${progress.found} entities found, ${progress.queued} queued...`),
+				() => this.cancelled
+			);
+		} catch (error) {
+			console.error('Network crawl failed:', this.seed.id, error);
+			new Notice(`Network crawl failed: ${error.message}`);
+			this.result = null;
+		}
+
+		this.isRunning = false;
+		this.renderPreview();
+	}
+
+	private formatSchemaCounts(): string {
+		const counts = new Map<string, number>();
+		for (const node of this.result?.nodes || []) {
+			counts.set(node.entity.schema, (counts.get(node.entity.schema) || 0) + 1);
+		}
+
+		return Array.from(counts.entries())
+			.sort((a, b) => b[1] - a[1])
+			.map(([schema, count]) => `${count} ${schema}`)
+			.join(', ');
+	}
+
+	private importNetwork() {
+		if (!this.result || this.result.nodes.length === 0) return;
+
+		if (this.onImport) {
+			this.onImport(this.result.nodes.map(node => node.entity));
+		}
+
+		this.close();
+	}
+
+	private addStyles() {
+		const styleEl = document.createElement('style');
+		styleEl.textContent = `
+			.network-schema-list {
+				display: flex;
+				flex-wrap: wrap;
+				gap: 4px 12px;
+				justify-content: flex-end;
+			}
+
+			.network-schema-list label {
+				display: flex;
+				align-items: center;
+				gap: 4px;
+			}
+
+			.network-preview {
+				margin-top: 15px;
+			}
+
+			.network-entity-list {
+				max-height: 250px;
+				overflow-y: auto;
+				border: 1px solid var(--background-modifier-border);
+				border-radius: 4px;
+			}
+
+			.network-entity-row {
+				display: flex;
+				justify-content: space-between;
+				gap: 10px;
+				padding: 4px 8px;
+				border-bottom: 1px solid var(--background-modifier-border);
+			}
+
+			.network-entity-meta {
+				color: var(--text-muted);
+				font-size: 0.85em;
+				white-space: nowrap;
+			}
+		`;
+		document.head.appendChild(styleEl);
+	}
+
+	onClose() {
+		// Stop an in-progress crawl when the modal is closed
+		this.cancelled = true;
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	// Properties to store DOM references
+	private previewContainer: HTMLDivElement;
+}
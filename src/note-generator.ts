@@ -1,28 +1,119 @@
-import { App, TFile, Notice } from 'obsidian';
-import { OpenSanctionsEntity, PluginSettings, FieldConfig, EnrichedEntity } from './types';
-import * as Handlebars from 'handlebars';
+import { App, TFile, Notice, normalizePath, stringifyYaml } from 'obsidian';
+import { OpenSanctionsEntity, PluginSettings, FieldConfig, EnrichedEntity, RelatedEntity, RelationshipRecord, Frontmatter, CollisionStrategy } from './types';
+import { splitFrontmatter, splitFrontmatterKeys, parseFrontmatter, formatFrontmatter, replaceMarkedSection, getDatasetLabel, escapeMermaidLabel } from './utils';
+import { EntityIndex } from './entity-index';
+import { getDisambiguators, getNoteBasename } from './filename';
+import { getDestinationFolder, getTemplatePath } from './entity-rules';
+import { TemplateContext, buildTemplateContext, compileTemplate, createSampleEntity, describeTemplateError } from './template-helpers';
+import { DEFAULT_RELATIONSHIP_KEY_MAP, RELATIONSHIP_LABELS, getListedDate } from './relationship-processor';
+
+// Markers delimiting the plugin-generated region of a note body.
+// Anything outside these markers belongs to the analyst and survives a refresh.
+export const GENERATED_START_MARKER = '<!-- opensanctions:start -->';
+export const GENERATED_END_MARKER = '<!-- opensanctions:end -->';
+
+// YAML keys used for each structured relationship list
+const RELATIONSHIP_YAML_KEYS = {
+	directorOf: 'director of',
+	ownerOf: 'owner of',
+	ownedBy: 'owned by',
+	employeeOf: 'employee of',
+	memberOf: 'member of',
+	relatedTo: 'related to',
+	family: 'family',
+	coConspirator: 'co-conspirator'
+};
+
+// Larger networks are cut off to keep the diagram readable
+const MAX_DIAGRAM_NODES = 25;
+
+// Mermaid node class per schema; sanctioned entities get an extra outline
+const DIAGRAM_SCHEMA_CLASSES: Record<string, string> = {
+	Person: 'person',
+	Company: 'organization',
+	Organization: 'organization',
+	LegalEntity: 'organization',
+	PublicBody: 'organization',
+	Vessel: 'asset',
+	Airplane: 'asset'
+};
+
+// Frontmatter keys summarising the entity's designations
+const SANCTION_YAML_KEYS = {
+	firstListed: 'first_listed',
+	authorities: 'sanction_authorities'
+};
+
+// Frontmatter flag marking a placeholder note for an entity that is not yet fully imported
+export const STUB_FLAG_KEY = 'opensanctions_stub';
+
+// Keys only written to stub notes; dropped when a stub is upgraded to a full import
+const STUB_YAML_KEYS = [STUB_FLAG_KEY, 'schema', 'caption'];
+
+// A template that failed during import; the note got the default body instead
+export interface TemplateWarning {
+	templatePath: string;
+	entityCaption: string;
+	message: string;
+}
 
 export class NoteGenerator {
 	private app: App;
 	private settings: PluginSettings;
+	private entityIndex?: EntityIndex;
+	private templateWarnings: TemplateWarning[] = [];
+	private newNotePaths: Map<string, string> = new Map(); // Entity ID → path its links were written with
 
-	constructor(app: App, settings: PluginSettings) {
+	constructor(app: App, settings: PluginSettings, entityIndex?: EntityIndex) {
 		this.app = app;
 		this.settings = settings;
+		this.entityIndex = entityIndex;
+	}
+
+	/**
+	 * Find a note already imported for this entity (by ID or referent)
+	 */
+	findExistingNote(entity: OpenSanctionsEntity): TFile | null {
+		return this.entityIndex?.findByEntity(entity) || null;
 	}
 
 	generateFilename(entity: OpenSanctionsEntity): string {
-		// Use caption as primary filename
-		let filename = entity.caption || entity.properties.name?.[0] || entity.id;
+		return `${getNoteBasename(entity, this.settings.filenameSettings)}.md`;
+	}
 
-		// Sanitize for filesystem
-		filename = filename
-			.replace(/[<>:"/\\|?*]/g, '') // Remove invalid chars
-			.replace(/\s+/g, ' ')         // Normalize whitespace
-			.trim()
-			.substring(0, 200);           // Reasonable length limit
+	/**
+	 * Wikilink to a related entity's note: the note it already has, or the one it would be
+	 * imported (or stubbed) as, name collisions included. The caption is shown when the note
+	 * name differs from it.
+	 */
+	linkToEntity(related: RelatedEntity): string {
+		const existing = this.entityIndex?.findById(related.id);
+		const target = this.getBasename(existing ? existing.path : this.getNewNotePath(this.toEntity(related)));
+		const caption = this.sanitizeWikilink(related.caption);
+
+		return target === caption ? `[[${target}]]` : `[[${target}|${caption}]]`;
+	}
+
+	/**
+	 * The related entity behind a relationship, as recorded on the enriched entity
+	 */
+	private findRelated(entity: EnrichedEntity, targetId: string | null, caption: string, schema = 'LegalEntity'): RelatedEntity {
+		const related = (entity.relatedEntities || []).find(r => targetId ? r.id === targetId : r.caption === caption);
+		return related || { id: targetId || caption, caption, schema };
+	}
 
-		return `${filename}.md`;
+	private toEntity(related: RelatedEntity): OpenSanctionsEntity {
+		return {
+			id: related.id,
+			caption: related.caption,
+			schema: related.schema,
+			properties: related.properties || {},
+			datasets: [],
+			referents: [],
+			target: false,
+			first_seen: '',
+			last_seen: ''
+		};
 	}
 
 	async generateNote(entity: OpenSanctionsEntity): Promise<TFile> {
@@ -30,9 +121,18 @@ export class NoteGenerator {
 		return await this.createNoteWithContent(entity, content);
 	}
 
-	async generateNoteContent(entity: OpenSanctionsEntity): Promise<string> {
+	/**
+	 * Full note content. `templatePath` overrides the template the settings pick for the entity;
+	 * an empty one gives the default body.
+	 */
+	async generateNoteContent(entity: OpenSanctionsEntity, templatePath?: string): Promise<string> {
 		const parts: string[] = [];
 
+		// Claim the note's own name first, so a related entity with the same name is linked elsewhere
+		if (!this.findExistingNote(entity)) {
+			this.getNewNotePath(entity);
+		}
+
 		// Generate YAML frontmatter
 		const yamlContent = this.generateYamlFrontmatter(entity);
 		parts.push(yamlContent);
@@ -40,18 +140,25 @@ export class NoteGenerator {
 		// Empty line after frontmatter
 		parts.push('');
 
-		// Generate note body
-		const bodyContent = await this.generateNoteBody(entity);
+		// Generate note body inside the generated-region markers
+		const bodyContent = await this.generateNoteBody(entity, templatePath);
+		parts.push(GENERATED_START_MARKER);
 		parts.push(bodyContent);
+		parts.push(GENERATED_END_MARKER);
 
 		return parts.join('\n');
 	}
 
 	generateYamlFrontmatter(entity: OpenSanctionsEntity): string {
-		const lines: string[] = ['---'];
+		return formatFrontmatter(this.buildFrontmatter(entity));
+	}
 
+	/**
+	 * Frontmatter as data, in key order. Values are kept as given; the YAML emitter does the quoting.
+	 */
+	buildFrontmatter(entity: OpenSanctionsEntity): Frontmatter {
 		// Always include OpenSanctions ID
-		lines.push(`opensanctions_id: "${entity.id}"`);
+		const frontmatter: Frontmatter = { opensanctions_id: entity.id };
 
 		// Get field configuration for this entity schema
 		const fieldConfig = this.settings.fieldConfigs[entity.schema] || {};
@@ -66,21 +173,14 @@ export class NoteGenerator {
 			if (apiField === 'topics') {
 				// Convert topics to sanctioned boolean
 				if (config.yamlKey === 'sanctioned') {
-					const isSanctioned = values.includes('sanction');
-					lines.push(`sanctioned: ${isSanctioned}`);
+					frontmatter.sanctioned = values.includes('sanction');
 					continue;
 				}
 				// Convert topics to human-readable risk flag labels
 				if (config.yamlKey === 'risk_flags') {
 					// Always output sanctioned boolean for quick filtering
-					lines.push(`sanctioned: ${values.includes('sanction')}`);
-					const topicLabels = this.getTopicLabels(values);
-					if (topicLabels.length === 1) {
-						lines.push(`risk_flags: "${topicLabels[0]}"`);
-					} else if (topicLabels.length > 1) {
-						const formatted = topicLabels.map(l => `"${l}"`).join(', ');
-						lines.push(`risk_flags: [${formatted}]`);
-					}
+					frontmatter.sanctioned = values.includes('sanction');
+					this.addValues(frontmatter, 'risk_flags', this.getTopicLabels(values));
 					continue;
 				}
 			}
@@ -89,156 +189,49 @@ export class NoteGenerator {
 			// for relationship properties; those are handled separately)
 			values = values.filter(v => typeof v === 'string');
 
-			// Skip empty values
-			if (values.length === 0) continue;
-
 			const yamlKey = config.yamlKey || apiField;
-
-			// Process and format values
-			const formatted = values.map(v => this.formatValue(v, config.wikilink));
-
-			// Add to YAML with proper formatting
-			if (formatted.length === 1) {
-				lines.push(`${yamlKey}: ${formatted[0]}`);
-			} else if (formatted.length > 1) {
-				// Use YAML dash-list format to match Import JSON Enhance spec
-				lines.push(`${yamlKey}:`);
-				formatted.forEach(f => lines.push(`  - ${f}`));
-			}
+			this.addValues(frontmatter, yamlKey, values.map(v => this.formatValue(v, config.wikilink)));
 		}
 
 		// Add relationship fields if entity is enriched
 		if ('relationships' in entity) {
-			this.addRelationshipFields(lines, entity as EnrichedEntity);
+			this.addRelationshipFields(frontmatter, entity as EnrichedEntity);
+		}
+
+		// Summarise designations from Sanction entities
+		if ('sanctions' in entity) {
+			this.addSanctionFields(frontmatter, entity as EnrichedEntity);
 		}
 
 		// Add metadata fields
 		if (this.settings.includeSourceUrl) {
-			lines.push(`source url: "https://opensanctions.org/entities/${entity.id}"`);
+			frontmatter['source url'] = `https://opensanctions.org/entities/${entity.id}`;
 		}
 
 		if (this.settings.includeImportDate) {
-			const today = new Date().toISOString().split('T')[0];
-			lines.push(`imported: "${today}"`);
+			frontmatter.imported = new Date().toISOString().split('T')[0];
 		}
 
-		// Final cleanup: Remove duplicate YAML keys
-		const cleanedLines = this.removeDuplicateYamlKeys(lines);
-
-		cleanedLines.push('---');
-		return cleanedLines.join('\n');
+		return frontmatter;
 	}
 
-	private removeDuplicateYamlKeys(lines: string[]): string[] {
-		const keyValues: Map<string, string[]> = new Map();
-		const nonKeyLines: string[] = [];
-
-		// Parse lines and group by keys
-		// Skip lines that are YAML list items (start with whitespace + dash)
-		for (const line of lines) {
-			const keyMatch = !line.match(/^\s+-/) && line.match(/^([^:]+):\s*(.*)$/);
-			if (keyMatch) {
-				const key = keyMatch[1].trim();
-				const value = keyMatch[2].trim();
-
-				if (!keyValues.has(key)) {
-					keyValues.set(key, []);
-				}
-
-				// Special handling for array values - flatten them
-				if (value.startsWith('[') && value.endsWith(']')) {
-					// Parse the array and extract individual items
-					try {
-						const arrayContent = value.slice(1, -1); // Remove [ and ]
-						const items = this.parseYamlArray(arrayContent);
-						keyValues.get(key)!.push(...items);
-					} catch (error) {
-						// If parsing fails, treat as single value
-						keyValues.get(key)!.push(value);
-					}
-				} else {
-					keyValues.get(key)!.push(value);
-				}
-			} else {
-				nonKeyLines.push(line);
-			}
-		}
-
-		// Rebuild lines, combining duplicates into flat arrays
-		const result: string[] = [];
-		for (const line of lines) {
-			const keyMatch = !line.match(/^\s+-/) && line.match(/^([^:]+):/);
-			if (keyMatch) {
-				const key = keyMatch[1].trim();
-				const values = keyValues.get(key);
-
-				if (values && values.length > 1) {
-					// Multiple values - combine into dash-list format
-					if (!result.some(l => l.startsWith(key + ':'))) {
-						// Remove duplicates and create dash-list
-						const uniqueValues = [...new Set(values)];
-						result.push(`${key}:`);
-						uniqueValues.forEach(v => result.push(`  - ${v}`));
-					}
-				} else if (values && values.length === 1) {
-					// Single value - add as-is
-					if (!result.some(l => l.startsWith(key + ':'))) {
-						result.push(`${key}: ${values[0]}`);
-					}
-				}
-			} else {
-				// Non-key line (like ---)
-				result.push(line);
-			}
-		}
-
-		return result;
-	}
+	/**
+	 * Add values under a key, merging with any values already there (several fields can map
+	 * to the same key). One value is written as a scalar, more as a list.
+	 */
+	private addValues(frontmatter: Frontmatter, key: string, values: string[]) {
+		const current = frontmatter[key];
+		const merged: string[] = Array.isArray(current) ? [...current] : current !== undefined ? [String(current)] : [];
 
-	private parseYamlArray(arrayContent: string): string[] {
-		const items: string[] = [];
-		let current = '';
-		let inQuotes = false;
-		let quoteChar = '';
-		let bracketCount = 0;
-
-		for (let i = 0; i < arrayContent.length; i++) {
-			const char = arrayContent[i];
-
-			if (char === '[') {
-				bracketCount++;
-				current += char;
-			} else if (char === ']') {
-				bracketCount--;
-				current += char;
-			} else if ((char === '"' || char === "'") && bracketCount === 0) {
-				if (!inQuotes) {
-					inQuotes = true;
-					quoteChar = char;
-				} else if (char === quoteChar) {
-					inQuotes = false;
-					quoteChar = '';
-				}
-				current += char;
-			} else if (char === ',' && !inQuotes && bracketCount === 0) {
-				// End of item
-				const trimmed = current.trim();
-				if (trimmed) {
-					items.push(trimmed);
-				}
-				current = '';
-			} else {
-				current += char;
-			}
+		for (const value of values) {
+			if (!merged.includes(value)) merged.push(value);
 		}
 
-		// Add the last item
-		const trimmed = current.trim();
-		if (trimmed) {
-			items.push(trimmed);
+		if (merged.length === 1) {
+			frontmatter[key] = merged[0];
+		} else if (merged.length > 1) {
+			frontmatter[key] = merged;
 		}
-
-		return items;
 	}
 
 	private getTopicLabels(topics: string[]): string[] {
@@ -266,66 +259,70 @@ export class NoteGenerator {
 			.filter(Boolean);
 	}
 
-	private addRelationshipFields(lines: string[], entity: EnrichedEntity) {
+	private addRelationshipFields(frontmatter: Frontmatter, entity: EnrichedEntity) {
 		const relationships = entity.relationships;
 		if (!relationships) return;
 
-		const relationshipMappings = {
-			directorOf: 'director of',
-			ownerOf: 'owner of',
-			ownedBy: 'owned by',
-			employeeOf: 'employee of',
-			memberOf: 'member of',
-			relatedTo: 'related to',
-			family: 'family',
-			coConspirator: 'co-conspirator'
-		};
+		const records = entity.relatedEntities ? entity.relationshipRecords : undefined;
+
+		for (const [key, yamlKey] of Object.entries(RELATIONSHIP_YAML_KEYS)) {
+			if (records) {
+				// By ID, so two related entities with the same name each get their own link
+				const targetIds = new Set<string>();
+				const links = records
+					.filter(record => DEFAULT_RELATIONSHIP_KEY_MAP[record.type] === key && !targetIds.has(record.targetId) && !!targetIds.add(record.targetId))
+					.map(record => this.linkToEntity(this.findRelated(entity, record.targetId, record.targetCaption, record.targetSchema)));
+				this.addValues(frontmatter, yamlKey, links);
+				continue;
+			}
+
+			const values = relationships[key as keyof typeof relationships] || [];
+			this.addValues(frontmatter, yamlKey, values.map(caption => entity.relatedEntities
+				? this.linkToEntity(this.findRelated(entity, null, caption))
+				: this.formatValue(caption, true)));
+		}
+	}
 
-		for (const [key, yamlKey] of Object.entries(relationshipMappings)) {
-			const values = relationships[key as keyof typeof relationships];
-			if (values && values.length > 0) {
-				const formatted = values.map(v => `"[[${this.sanitizeWikilink(v)}]]"`);
+	private addSanctionFields(frontmatter: Frontmatter, entity: EnrichedEntity) {
+		const sanctions = entity.sanctions;
+		if (!sanctions || sanctions.length === 0) return;
 
-				if (formatted.length === 1) {
-					lines.push(`${yamlKey}: ${formatted[0]}`);
-				} else {
-					lines.push(`${yamlKey}:`);
-					formatted.forEach(f => lines.push(`  - ${f}`));
-				}
-			}
+		const listedDates = sanctions.map(getListedDate).filter((date): date is string => !!date).sort();
+		if (listedDates.length > 0) {
+			frontmatter[SANCTION_YAML_KEYS.firstListed] = listedDates[0];
 		}
+
+		const authorities: string[] = [];
+		sanctions.forEach(s => s.authority.forEach(a => authorities.push(this.formatValue(a, false))));
+		this.addValues(frontmatter, SANCTION_YAML_KEYS.authorities, authorities);
 	}
 
 	private formatValue(value: string, wikilink: boolean): string {
-		// Remove line breaks and normalize whitespace to prevent YAML parsing issues
+		// Frontmatter values are single-line; other characters are kept as they are
 		const sanitized = String(value)
-			.replace(/"/g, "'")
 			.replace(/\r?\n/g, ' ')           // Replace line breaks with spaces
 			.replace(/\s+/g, ' ')             // Normalize multiple spaces
 			.trim();
 
-		if (wikilink) {
-			// Wikilinks should always be quoted in YAML for proper parsing
-			return `"[[${this.sanitizeWikilink(sanitized)}]]"`;
-		} else {
-			return `"${sanitized}"`;
-		}
+		return wikilink ? `[[${this.sanitizeWikilink(sanitized)}]]` : sanitized;
 	}
 
 	private sanitizeWikilink(value: string): string {
-		// Clean up value for use in wikilinks inside YAML quoted strings
+		// Clean up value for use as a wikilink target
 		return value
 			.replace(/[\[\]]/g, '')           // Remove existing brackets
-			.replace(/"/g, "'")               // Replace double quotes (breaks YAML quoting)
+			.replace(/"/g, "'")               // Replace double quotes (not allowed in filenames)
 			.replace(/[|#^]/g, '')            // Remove pipe, hash, caret (break Obsidian wikilinks)
 			.replace(/\r?\n/g, ' ')           // Replace line breaks with spaces
 			.replace(/\s+/g, ' ')             // Normalize multiple spaces
 			.trim();
 	}
 
-	private async generateNoteBody(entity: OpenSanctionsEntity): Promise<string> {
-		// Check if there's a template for this schema
-		const templatePath = this.settings.templates[entity.schema];
+	private async generateNoteBody(entity: OpenSanctionsEntity, templatePath?: string): Promise<string> {
+		// An empty path picks the default body over any configured template
+		if (templatePath === undefined) {
+			templatePath = getTemplatePath(entity, this.settings);
+		}
 
 		if (templatePath) {
 			return await this.generateTemplatedBody(entity, templatePath);
@@ -336,44 +333,72 @@ export class NoteGenerator {
 
 	private async generateTemplatedBody(entity: OpenSanctionsEntity, templatePath: string): Promise<string> {
 		try {
-			const templateFile = this.app.vault.getAbstractFileByPath(templatePath);
-			if (!templateFile || !(templateFile instanceof TFile)) {
-				throw new Error(`Template file not found: ${templatePath}`);
-			}
+			return await this.renderTemplate(templatePath, entity);
+		} catch (error) {
+			// The note is still written with the default body; callers report the warning
+			console.error('Error generating templated body:', templatePath, error);
+			this.templateWarnings.push({
+				templatePath,
+				entityCaption: entity.caption,
+				message: describeTemplateError(error)
+			});
+			return this.generateDefaultBody(entity);
+		}
+	}
 
-			const templateContent = await this.app.vault.read(templateFile);
+	/**
+	 * Render a template file for an entity. Throws if the file is missing or the template fails.
+	 */
+	async renderTemplate(templatePath: string, entity: OpenSanctionsEntity): Promise<string> {
+		const templateFile = this.app.vault.getAbstractFileByPath(templatePath);
+		if (!templateFile || !(templateFile instanceof TFile)) {
+			throw new Error(`Template file not found: ${templatePath}`);
+		}
 
-			// Compile template with Handlebars
-			const template = Handlebars.compile(templateContent, {
-				noEscape: true
-			});
+		const templateContent = await this.app.vault.read(templateFile);
 
-			// Create context for template
-			const context = {
-				...entity,
-				// Add helper data
-				hasSanctions: entity.properties.topics?.includes('sanction'),
-				isPep: entity.properties.topics?.includes('role.pep'),
-				isOligarch: entity.properties.topics?.includes('role.oligarch'),
-				datasets: entity.datasets || [],
-				// First values for easy access
-				name: entity.properties.name?.[0] || entity.caption,
-				birthDate: entity.properties.birthDate?.[0],
-				birthPlace: entity.properties.birthPlace?.[0],
-				nationality: entity.properties.nationality?.[0],
-				position: entity.properties.position?.[0],
-				country: entity.properties.country?.[0],
-				description: entity.properties.description?.[0]
-			};
-
-			return template(context);
+		// Compile template with the helper library
+		const template = compileTemplate(templateContent);
+		return template(this.buildTemplateContext(entity));
+	}
 
+	/**
+	 * Check that a template exists, parses and renders against a sample entity of the schema.
+	 * Returns the problem, or null if the template is fine.
+	 */
+	async validateTemplate(templatePath: string, schema: string): Promise<string | null> {
+		try {
+			await this.renderTemplate(templatePath, createSampleEntity(schema));
+			return null;
 		} catch (error) {
-			console.error('Error generating templated body:', error);
-			return this.generateDefaultBody(entity);
+			return describeTemplateError(error);
 		}
 	}
 
+	/**
+	 * Template failures since the last call, clearing them
+	 */
+	takeTemplateWarnings(): TemplateWarning[] {
+		const warnings = this.templateWarnings;
+		this.templateWarnings = [];
+		return warnings;
+	}
+
+	/**
+	 * The data a note template is rendered with; see TemplateContext for its fields
+	 */
+	buildTemplateContext(entity: OpenSanctionsEntity): TemplateContext {
+		const importInfo = {
+			date: new Date().toISOString().split('T')[0],
+			sourceUrl: `https://opensanctions.org/entities/${entity.id}`,
+			folder: getDestinationFolder(entity, this.settings),
+			filename: this.generateFilename(entity)
+		};
+
+		return buildTemplateContext(entity, importInfo, related =>
+			this.linkToEntity(this.findRelated(entity as EnrichedEntity, related.id, related.caption, related.schema)));
+	}
+
 	private generateDefaultBody(entity: OpenSanctionsEntity): string {
 		const lines: string[] = [];
 
@@ -432,6 +457,12 @@ export class NoteGenerator {
 			this.addCompanyInfo(lines, entity);
 		}
 
+		this.addSanctionsSection(lines, entity as EnrichedEntity);
+		if (this.settings.includeRelationshipDiagram) {
+			this.addRelationshipDiagram(lines, entity as EnrichedEntity);
+		}
+		this.addRelationshipsSection(lines, entity as EnrichedEntity);
+
 		lines.push('');
 		lines.push('#### See Also');
 		lines.push('');
@@ -491,45 +522,485 @@ export class NoteGenerator {
 		}
 	}
 
-	async createNoteWithContent(entity: OpenSanctionsEntity, content: string): Promise<TFile> {
-		const filename = this.generateFilename(entity);
-		const folder = this.settings.defaultFolder || 'OpenSanctions';
+	/**
+	 * Create a stub note for every related entity that has no note yet, so relationship wikilinks resolve.
+	 * Returns the stubs created.
+	 */
+	async createStubNotes(entity: EnrichedEntity): Promise<TFile[]> {
+		const created: TFile[] = [];
+
+		for (const related of entity.relatedEntities || []) {
+			try {
+				const stub = await this.createStubNote(related);
+				if (stub) created.push(stub);
+			} catch (error) {
+				console.error('Failed to create stub note for related entity:', related.id, error);
+			}
+		}
+
+		return created;
+	}
 
-		// Ensure folder exists
-		await this.ensureFolderExists(folder);
+	/**
+	 * Create a placeholder note for a related entity, at the path its wikilinks point to.
+	 * Returns null if a note for it already exists, or the links point to a note that isn't
+	 * from OpenSanctions and would be updated on import.
+	 */
+	async createStubNote(related: RelatedEntity): Promise<TFile | null> {
+		const stubEntity = this.toEntity(related);
+
+		if (this.findExistingNote(stubEntity)) return null;
+
+		const fullPath = this.getNewNotePath(stubEntity);
+		if (this.app.vault.getAbstractFileByPath(fullPath)) return null;
+
+		await this.ensureFolderExists(getDestinationFolder(stubEntity, this.settings));
+
+		const content = [
+			formatFrontmatter({
+				opensanctions_id: related.id,
+				schema: related.schema,
+				caption: related.caption,
+				[STUB_FLAG_KEY]: true
+			}),
+			'',
+			GENERATED_START_MARKER,
+			`# ${related.caption}`,
+			'',
+			'> [!NOTE] Not yet fully imported',
+			'> This is a placeholder for a related entity. Run "Upgrade stub to full import" to fetch its details.',
+			'',
+			`*[View on OpenSanctions](https://opensanctions.org/entities/${related.id})*`,
+			GENERATED_END_MARKER,
+			''
+		].join('\n');
+
+		const file = await this.app.vault.create(fullPath, content);
+		this.entityIndex?.add(related.id, file);
+		return file;
+	}
 
-		// Full path for the note
-		const fullPath = folder ? `${folder}/${filename}` : filename;
+	/**
+	 * Sanctions section: one entry per designation, earliest listing first
+	 */
+	private addSanctionsSection(lines: string[], entity: EnrichedEntity) {
+		const sanctions = entity.sanctions;
+		if (!sanctions || sanctions.length === 0) return;
 
-		// Check if file already exists
-		const existingFile = this.app.vault.getAbstractFileByPath(fullPath);
+		lines.push('');
+		lines.push('## Sanctions');
+
+		for (const sanction of sanctions) {
+			const authority = sanction.authority.join(', ') || sanction.datasets.map(getDatasetLabel).join(', ') || 'Unknown authority';
+			const clean = (value: string) => value.replace(/\r?\n/g, ' ').trim();
+
+			lines.push('');
+			lines.push(`### ${clean(authority)}${sanction.program ? ` — ${clean(sanction.program)}` : ''}`);
+			lines.push('');
+
+			const listed = getListedDate(sanction);
+			if (listed) {
+				lines.push(`- **Listed:** ${listed}`);
+			}
+			if (sanction.endDate) {
+				lines.push(`- **Ended:** ${sanction.endDate}`);
+			}
+			if (sanction.reason) {
+				lines.push(`- **Reason:** ${clean(sanction.reason)}`);
+			}
+			if (sanction.datasets.length > 0) {
+				lines.push(`- **Lists:** ${sanction.datasets.map(getDatasetLabel).join(', ')}`);
+			}
+			if (sanction.sourceUrl) {
+				lines.push(`- **Source:** ${sanction.sourceUrl}`);
+			}
+		}
+	}
+
+	/**
+	 * Mermaid graph of the entity and its direct relationships, edges labelled by relationship type
+	 */
+	private addRelationshipDiagram(lines: string[], entity: EnrichedEntity) {
+		const records = entity.relationshipRecords;
+		if (!records || records.length === 0) return;
+
+		const nodeIds = new Map<string, string>();
+		const edges: string[] = [];
+		const edgeKeys = new Set<string>();
+		const nodeLines: string[] = [];
+		const classLines: string[] = [];
+
+		const addNode = (id: string, caption: string, schema: string, topics: string[]) => {
+			const nodeId = `n${nodeIds.size}`;
+			nodeIds.set(id, nodeId);
+			nodeLines.push(`    ${nodeId}["${escapeMermaidLabel(caption)}"]`);
+			classLines.push(`    class ${nodeId} ${DIAGRAM_SCHEMA_CLASSES[schema] || 'other'}`);
+			if (topics.includes('sanction')) {
+				classLines.push(`    class ${nodeId} sanctioned`);
+			}
+		};
+
+		// The entity itself is n0
+		addNode(entity.id, entity.caption, entity.schema, entity.properties.topics || []);
 
-		if (existingFile && existingFile instanceof TFile) {
-			if (this.settings.overwriteExisting) {
-				// Overwrite existing file
-				await this.app.vault.modify(existingFile, content);
-				return existingFile;
-			} else {
-				// Create numbered copy
-				const numberedPath = await this.findUniqueFilename(fullPath);
-				return await this.app.vault.create(numberedPath, content);
+		let omitted = 0;
+		for (const record of records) {
+			if (!nodeIds.has(record.targetId)) {
+				if (nodeIds.size > MAX_DIAGRAM_NODES) {
+					omitted++;
+					continue;
+				}
+				addNode(record.targetId, record.targetCaption, record.targetSchema, record.targetTopics);
 			}
+
+			const edgeKey = `${record.type}:${record.targetId}`;
+			if (edgeKeys.has(edgeKey)) continue;
+			edgeKeys.add(edgeKey);
+			edges.push(`    n0 -->|"${escapeMermaidLabel(RELATIONSHIP_LABELS[record.type])}"| ${nodeIds.get(record.targetId)}`);
+		}
+
+		lines.push('');
+		lines.push('## Network');
+		lines.push('');
+		lines.push('```mermaid');
+		lines.push('graph LR');
+		lines.push(...nodeLines);
+		lines.push(...edges);
+		lines.push('    classDef person fill:#e3f2fd,stroke:#1565c0');
+		lines.push('    classDef organization fill:#f1f8e9,stroke:#558b2f');
+		lines.push('    classDef asset fill:#fff8e1,stroke:#f9a825');
+		lines.push('    classDef other fill:#f5f5f5,stroke:#757575');
+		lines.push('    classDef sanctioned stroke:#c62828,stroke-width:3px');
+		lines.push(...classLines);
+		lines.push('```');
+
+		if (omitted > 0) {
+			lines.push('');
+			lines.push(`*${omitted} more relationship${omitted === 1 ? '' : 's'} not shown; see the table below.*`);
+		}
+	}
+
+	/**
+	 * Relationships table: one row per relationship entity, current before former
+	 */
+	private addRelationshipsSection(lines: string[], entity: EnrichedEntity) {
+		const records = entity.relationshipRecords;
+		if (!records || records.length === 0) return;
+
+		const typeOrder = Object.keys(RELATIONSHIP_LABELS);
+		const sorted = [...records].sort((a, b) =>
+			typeOrder.indexOf(a.type) - typeOrder.indexOf(b.type) ||
+			Number(this.isFormerRelationship(a)) - Number(this.isFormerRelationship(b)) ||
+			(parseFloat(b.percentage || '') || 0) - (parseFloat(a.percentage || '') || 0)
+		);
+		const escape = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+		lines.push('');
+		lines.push('## Relationships');
+		lines.push('');
+		lines.push('| Relationship | Entity | Role | Period | Share | Status | Sources |');
+		lines.push('|---|---|---|---|---|---|---|');
+
+		for (const record of sorted) {
+			const cells = [
+				RELATIONSHIP_LABELS[record.type],
+				escape(this.linkToEntity(this.findRelated(entity, record.targetId, record.targetCaption, record.targetSchema))),
+				escape(record.role || ''),
+				this.formatPeriod(record),
+				this.formatShare(record),
+				this.isFormerRelationship(record) ? 'Former' : 'Current',
+				escape(record.datasets.map(getDatasetLabel).join(', '))
+			];
+			lines.push(`| ${cells.join(' | ')} |`);
+		}
+
+		if (this.settings.relationshipInlineFields) {
+			// Dataview bracketed inline fields, one list item per relationship
+			lines.push('');
+			for (const record of sorted) {
+				const link = this.linkToEntity(this.findRelated(entity, record.targetId, record.targetCaption, record.targetSchema));
+				const fields = [`[${RELATIONSHIP_LABELS[record.type].replace(/[\s-]+/g, '_')}:: ${link}]`];
+				if (record.role) fields.push(`[role:: ${escape(record.role).replace(/[\[\]]/g, '')}]`);
+				if (record.startDate) fields.push(`[start:: ${record.startDate}]`);
+				if (record.endDate) fields.push(`[end:: ${record.endDate}]`);
+				if (record.percentage) fields.push(`[share:: ${this.formatShare(record)}]`);
+				fields.push(`[status:: ${this.isFormerRelationship(record) ? 'former' : 'current'}]`);
+				lines.push(`- ${fields.join(' ')}`);
+			}
+		}
+	}
+
+	private isFormerRelationship(record: RelationshipRecord): boolean {
+		if (!record.endDate) return false;
+		const today = new Date().toISOString().split('T')[0];
+		return record.endDate < today.substring(0, record.endDate.length);
+	}
+
+	private formatPeriod(record: RelationshipRecord): string {
+		if (record.startDate && record.endDate) return `${record.startDate} – ${record.endDate}`;
+		if (record.startDate) return `since ${record.startDate}`;
+		if (record.endDate) return `until ${record.endDate}`;
+		return '';
+	}
+
+	private formatShare(record: RelationshipRecord): string {
+		const parts: string[] = [];
+		if (record.percentage) {
+			parts.push(/^[\d.]+$/.test(record.percentage) ? `${record.percentage}%` : record.percentage);
+		}
+		if (record.sharesCount) {
+			parts.push(`${record.sharesCount} shares`);
+		}
+		return parts.join(', ');
+	}
+
+	async createNoteWithContent(entity: OpenSanctionsEntity, content: string): Promise<TFile> {
+		// An existing note for this entity (or a merged referent) is updated rather than duplicated
+		const indexedFile = this.findExistingNote(entity);
+		if (indexedFile) {
+			await this.updateNoteWithContent(indexedFile, entity, content);
+			this.entityIndex?.add(entity.id, indexedFile);
+			return indexedFile;
+		}
+
+		// Ensure the folder picked by the folder rules exists
+		await this.ensureFolderExists(getDestinationFolder(entity, this.settings));
+
+		// The same path that wikilinks to the entity were written with
+		const fullPath = this.getNewNotePath(entity);
+		const existingFile = this.app.vault.getAbstractFileByPath(fullPath);
+
+		let file: TFile;
+		if (existingFile instanceof TFile) {
+			// Update plugin-owned parts of the existing file, keeping analyst edits
+			await this.updateNoteWithContent(existingFile, entity, content);
+			file = existingFile;
 		} else {
-			// Create new file
-			return await this.app.vault.create(fullPath, content);
+			file = await this.app.vault.create(fullPath, content);
 		}
+
+		// Index immediately so later imports in the same batch see this note
+		this.entityIndex?.add(entity.id, file);
+		return file;
+	}
+
+	/**
+	 * Refresh an existing note from freshly fetched entity data.
+	 * Only plugin-owned frontmatter keys and the generated body region are rewritten.
+	 */
+	async refreshNote(file: TFile, entity: OpenSanctionsEntity): Promise<TFile> {
+		const content = await this.generateNoteContent(entity);
+		await this.updateNoteWithContent(file, entity, content);
+		return file;
+	}
+
+	async updateNoteWithContent(file: TFile, entity: OpenSanctionsEntity, content: string): Promise<void> {
+		const existing = await this.app.vault.read(file);
+		const merged = this.mergeNoteContent(existing, content, entity.schema, file.basename);
+		await this.app.vault.modify(file, merged);
+	}
+
+	/**
+	 * Merge newly generated note content into an existing note.
+	 * Plugin-owned frontmatter keys are replaced (or removed if no longer generated),
+	 * all other keys are kept in place as written, comments included. Frontmatter that
+	 * isn't valid YAML is left as it is, with a notice. The body is only replaced between
+	 * the generated-region markers.
+	 */
+	mergeNoteContent(existing: string, generated: string, schema: string, noteName = 'the note'): string {
+		const existingParts = splitFrontmatter(existing);
+		const generatedParts = splitFrontmatter(generated);
+
+		let existingData: Frontmatter;
+		try {
+			existingData = parseFrontmatter(existingParts.frontmatter);
+		} catch (error) {
+			console.error('Keeping unreadable frontmatter unchanged:', noteName, error);
+			new Notice(`Frontmatter of ${noteName} was not updated: ${error.message.split('\n')[0]}. Fix the YAML and refresh again.`, 10000);
+
+			// The ID is still needed to find the generated part of older notes
+			const idMatch = (existingParts.frontmatter || '').match(/^opensanctions_id:\s*['"]?([^'"\s#]+)/m);
+			const body = this.mergeNoteBody(existingParts.body, generatedParts.body, idMatch ? idMatch[1] : null);
+			return [`---\n${existingParts.frontmatter}\n---`, body].join('\n');
+		}
+		const generatedData = parseFrontmatter(generatedParts.frontmatter);
+
+		const ownedKeys = this.getOwnedYamlKeys(schema);
+		Object.keys(generatedData).forEach(key => ownedKeys.add(key));
+
+		// Upgrading a stub: its placeholder keys go away
+		if (STUB_FLAG_KEY in existingData) {
+			STUB_YAML_KEYS.forEach(key => ownedKeys.add(key));
+		}
+
+		// Keep the original import date and record the refresh separately
+		if ('imported' in existingData && 'imported' in generatedData) {
+			generatedData.imported = existingData.imported;
+			generatedData.refreshed = new Date().toISOString().split('T')[0];
+		}
+
+		const formatKey = (key: string) => stringifyYaml({ [key]: generatedData[key] }).replace(/\n$/, '');
+
+		// Existing keys stay in place as written; owned keys take the generated value or are dropped
+		const lines: string[] = [];
+		const written = new Set<string>();
+		for (const entry of splitFrontmatterKeys(existingParts.frontmatter || '')) {
+			if (entry.key === null || !ownedKeys.has(entry.key)) {
+				lines.push(entry.text);
+			} else if (entry.key in generatedData && !written.has(entry.key)) {
+				lines.push(formatKey(entry.key));
+			}
+			if (entry.key !== null) written.add(entry.key);
+		}
+
+		for (const key of Object.keys(generatedData)) {
+			if (!written.has(key)) {
+				lines.push(formatKey(key));
+			}
+		}
+
+		const frontmatter = lines.filter(line => line !== '').join('\n');
+		const body = this.mergeNoteBody(existingParts.body, generatedParts.body, existingData.opensanctions_id);
+
+		return [`---\n${frontmatter}\n---`, body].join('\n');
+	}
+
+	private mergeNoteBody(existingBody: string, generatedBody: string, existingId: unknown): string {
+		const startIndex = generatedBody.indexOf(GENERATED_START_MARKER);
+		const endIndex = generatedBody.indexOf(GENERATED_END_MARKER);
+		const generatedRegion = startIndex !== -1 && endIndex !== -1
+			? generatedBody.slice(startIndex, endIndex + GENERATED_END_MARKER.length)
+			: generatedBody;
+
+		// Notes written by this version of the plugin carry markers
+		const replaced = replaceMarkedSection(existingBody, GENERATED_START_MARKER, GENERATED_END_MARKER, generatedRegion);
+		if (replaced !== null) {
+			return replaced;
+		}
+
+		// Older notes: the default body ends with the "Imported from" footer line
+		if (existingId) {
+			const footer = `*Imported from [OpenSanctions](https://opensanctions.org/entities/${existingId})*`;
+			const footerIndex = existingBody.indexOf(footer);
+			if (footerIndex !== -1) {
+				return '\n' + generatedRegion + existingBody.slice(footerIndex + footer.length);
+			}
+		}
+
+		// Unknown layout: keep everything and put the generated region on top
+		return '\n' + generatedRegion + '\n' + existingBody;
+	}
+
+	/**
+	 * Frontmatter keys the plugin writes for a schema. These are overwritten on refresh.
+	 */
+	getOwnedYamlKeys(schema: string): Set<string> {
+		const keys = new Set<string>(['opensanctions_id', 'sanctioned', 'risk_flags', 'source url', 'imported', 'refreshed']);
+
+		const fieldConfig = this.settings.fieldConfigs[schema] || {};
+		for (const [apiField, config] of Object.entries(fieldConfig)) {
+			keys.add(config.yamlKey || apiField);
+		}
+
+		Object.values(RELATIONSHIP_YAML_KEYS).forEach(key => keys.add(key));
+		Object.values(SANCTION_YAML_KEYS).forEach(key => keys.add(key));
+
+		return keys;
+	}
+
+	/**
+	 * Where a new note for the entity would be created, before any name collision is resolved
+	 */
+	getNotePath(entity: OpenSanctionsEntity): string {
+		return normalizePath(`${getDestinationFolder(entity, this.settings)}/${this.generateFilename(entity)}`);
+	}
+
+	/**
+	 * Where an entity without a note gets one. A name taken here or in another folder goes to
+	 * the collision strategy, except that a note not imported from OpenSanctions is reused
+	 * when overwriting is enabled. The path is remembered, so the note is created where
+	 * earlier links to it point.
+	 */
+	getNewNotePath(entity: OpenSanctionsEntity): string {
+		let path = this.newNotePaths.get(entity.id);
+		if (!path) {
+			path = this.pickNewNotePath(entity);
+			this.newNotePaths.set(entity.id, path);
+		}
+		return path;
+	}
+
+	private pickNewNotePath(entity: OpenSanctionsEntity): string {
+		const fullPath = this.getNotePath(entity);
+		const existingFile = this.findNoteAt(fullPath);
+		if (!existingFile && !this.isNameClaimed(fullPath, entity.id)) return fullPath;
+
+		// A note imported for a different entity is never overwritten
+		const existingId = existingFile && this.app.metadataCache.getFileCache(existingFile)?.frontmatter?.opensanctions_id;
+		if (existingFile && this.settings.overwriteExisting && !existingId) {
+			return existingFile.path;
+		}
+
+		return this.resolveCollision(entity, fullPath);
+	}
+
+	/**
+	 * Whether another entity's links already point to a note with this path's name
+	 */
+	private isNameClaimed(path: string, entityId: string): boolean {
+		const name = this.getBasename(path);
+		return Array.from(this.newNotePaths.entries())
+			.some(([id, claimed]) => id !== entityId && this.getBasename(claimed) === name);
+	}
+
+	private getBasename(path: string): string {
+		return (path.split('/').pop() || path).replace(/\.md$/, '');
+	}
+
+	/**
+	 * The note at a path, or a note with the same name in another folder.
+	 * Wikilinks go by name, so a name is only free if no folder has it.
+	 */
+	private findNoteAt(path: string): TFile | null {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (file instanceof TFile) return file;
+
+		return this.app.metadataCache.getFirstLinkpathDest(this.getBasename(path), '');
 	}
 
 	private async ensureFolderExists(folderPath: string): Promise<void> {
 		if (!folderPath) return;
 
-		const folder = this.app.vault.getAbstractFileByPath(folderPath);
-		if (!folder) {
-			await this.app.vault.createFolder(folderPath);
+		// Create each missing level of a nested path
+		let current = '';
+		for (const segment of folderPath.split('/')) {
+			current = current ? `${current}/${segment}` : segment;
+			if (!this.app.vault.getAbstractFileByPath(current)) {
+				await this.app.vault.createFolder(current);
+			}
 		}
 	}
 
-	private async findUniqueFilename(basePath: string): Promise<string> {
+	/**
+	 * Find a free path for a note whose name is taken, using the configured collision strategy
+	 */
+	private resolveCollision(entity: OpenSanctionsEntity, fullPath: string): string {
+		if (this.settings.filenameSettings.collisionStrategy === CollisionStrategy.ATTRIBUTES) {
+			const basePath = fullPath.replace(/\.md$/, '');
+			const basename = basePath.split('/').pop() || basePath;
+
+			for (const suffix of getDisambiguators(entity, basename)) {
+				const candidate = `${basePath} (${suffix}).md`;
+				if (!this.findNoteAt(candidate) && !this.isNameClaimed(candidate, entity.id)) {
+					return candidate;
+				}
+			}
+		}
+
+		return this.findUniqueFilename(fullPath, entity.id);
+	}
+
+	private findUniqueFilename(basePath: string, entityId: string): string {
 		const pathParts = basePath.split('.');
 		const extension = pathParts.pop();
 		const basePathWithoutExt = pathParts.join('.');
@@ -537,7 +1008,7 @@ export class NoteGenerator {
 		let counter = 1;
 		let newPath = `${basePathWithoutExt} (${counter}).${extension}`;
 
-		while (this.app.vault.getAbstractFileByPath(newPath)) {
+		while (this.findNoteAt(newPath) || this.isNameClaimed(newPath, entityId)) {
 			counter++;
 			newPath = `${basePathWithoutExt} (${counter}).${extension}`;
 		}
@@ -0,0 +1,37 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+
+/**
+ * Pick a note from a list, e.g. an imported entity or a template
+ */
+export class NoteSuggestModal extends FuzzySuggestModal<TFile> {
+	private files: TFile[];
+	private onChoose: (file: TFile) => void;
+
+	constructor(app: App, files: TFile[], placeholder: string, onChoose: (file: TFile) => void) {
+		super(app);
+		this.files = files;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): TFile[] {
+		return this.files;
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile) {
+		this.onChoose(file);
+	}
+}
+
+/**
+ * Notes that can serve as templates: everything except notes imported from OpenSanctions
+ */
+export function getTemplateFiles(app: App): TFile[] {
+	return app.vault.getMarkdownFiles()
+		.filter(file => !app.metadataCache.getFileCache(file)?.frontmatter?.opensanctions_id)
+		.sort((a, b) => a.path.localeCompare(b.path));
+}
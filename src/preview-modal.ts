@@ -1,21 +1,37 @@
-import { App, Modal, Notice } from 'obsidian';
+import { App, Modal, Notice, Setting } from 'obsidian';
 import { OpenSanctionsEntity, PluginSettings } from './types';
-import { NoteGenerator } from './note-generator';
+import { NoteGenerator, TemplateWarning } from './note-generator';
+import { EntityIndex } from './entity-index';
+import { getTemplatePath } from './entity-rules';
+import { NoteSuggestModal, getTemplateFiles } from './note-suggest-modal';
 
 export class PreviewModal extends Modal {
 	private entity: OpenSanctionsEntity;
 	private settings: PluginSettings;
 	private noteGenerator: NoteGenerator;
+	private templatePath: string; // Empty for the default note body
+	private configuredTemplate: string;
 	private previewContent: string = '';
+	private templateWarnings: TemplateWarning[] = [];
 
-	constructor(app: App, entity: OpenSanctionsEntity, settings: PluginSettings) {
+	/**
+	 * `templatePath` renders with that template instead of the one the settings pick for the entity
+	 */
+	constructor(app: App, entity: OpenSanctionsEntity, settings: PluginSettings, entityIndex?: EntityIndex, templatePath?: string) {
 		super(app);
 		this.entity = entity;
 		this.settings = settings;
-		this.noteGenerator = new NoteGenerator(app, settings);
+		this.noteGenerator = new NoteGenerator(app, settings, entityIndex);
+		this.configuredTemplate = getTemplatePath(entity, settings);
+		this.templatePath = templatePath ?? this.configuredTemplate;
 	}
 
 	async onOpen() {
+		await this.render();
+		this.addStyles();
+	}
+
+	private async render() {
 		const { contentEl } = this;
 		contentEl.empty();
 
@@ -23,9 +39,28 @@ export class PreviewModal extends Modal {
 		const filename = this.noteGenerator.generateFilename(this.entity);
 		contentEl.createEl('h2', { text: `Preview: ${filename}` });
 
+		// Importing an entity that already has a note updates that note instead
+		const existingNote = this.noteGenerator.findExistingNote(this.entity);
+		if (existingNote) {
+			contentEl.createEl('p', {
+				text: `Already imported as "${existingNote.path}". Importing will update that note in place.`,
+				cls: 'preview-existing-note'
+			});
+		}
+
+		this.renderTemplatePicker();
+
 		// Generate preview content
 		await this.generatePreview();
 
+		// A failed template is reported here rather than only in the console
+		for (const warning of this.templateWarnings) {
+			contentEl.createDiv({
+				text: `Template "${warning.templatePath}" failed: ${warning.message}. The preview shows the default note body.`,
+				cls: 'preview-template-error'
+			});
+		}
+
 		// Create preview container
 		const previewContainer = contentEl.createDiv('preview-container');
 
@@ -52,14 +87,49 @@ export class PreviewModal extends Modal {
 		importButton.addEventListener('click', () => {
 			this.importNote();
 		});
+	}
 
-		this.addStyles();
+	/**
+	 * Pick a different template for this import only; the settings are left unchanged
+	 */
+	private renderTemplatePicker() {
+		const source = this.templatePath === this.configuredTemplate ? 'from settings' : 'chosen for this import';
+		const setting = new Setting(this.contentEl)
+			.setName('Template')
+			.setDesc(this.templatePath ? `${this.templatePath} (${source})` : `Default note body (${source})`)
+			.addButton(button => button
+				.setButtonText('Choose Template')
+				.onClick(() => {
+					new NoteSuggestModal(this.app, getTemplateFiles(this.app), 'Choose a template for this note', (file) => {
+						this.useTemplate(file.path);
+					}).open();
+				}));
+
+		if (this.templatePath) {
+			setting.addExtraButton(button => button
+				.setIcon('x')
+				.setTooltip('Use the default note body')
+				.onClick(() => this.useTemplate('')));
+		}
+		if (this.templatePath !== this.configuredTemplate) {
+			setting.addExtraButton(button => button
+				.setIcon('rotate-ccw')
+				.setTooltip('Use the template from settings')
+				.onClick(() => this.useTemplate(this.configuredTemplate)));
+		}
+		setting.settingEl.addClass('preview-template');
+	}
+
+	private async useTemplate(templatePath: string) {
+		this.templatePath = templatePath;
+		await this.render();
 	}
 
 	private async generatePreview() {
 		try {
 			// Generate the full note content as it would appear
-			this.previewContent = await this.noteGenerator.generateNoteContent(this.entity);
+			this.previewContent = await this.noteGenerator.generateNoteContent(this.entity, this.templatePath);
+			this.templateWarnings = this.noteGenerator.takeTemplateWarnings();
 		} catch (error) {
 			console.error('Error generating preview:', error);
 			this.previewContent = `Error generating preview: ${error.message}\n\nPlease check your field configuration and try again.`;
@@ -76,8 +146,8 @@ export class PreviewModal extends Modal {
 			this.settings,
 			this.previewContent,
 			async (editedContent: string) => {
-				await this.noteGenerator.createNoteWithContent(this.entity, editedContent);
-				new Notice(`Created note: ${this.noteGenerator.generateFilename(this.entity)}`);
+				const file = await this.noteGenerator.createNoteWithContent(this.entity, editedContent);
+				new Notice(`Saved note: ${file.basename}`);
 			}
 		);
 		editModal.open();
@@ -85,8 +155,9 @@ export class PreviewModal extends Modal {
 
 	private async importNote() {
 		try {
-			await this.noteGenerator.generateNote(this.entity);
-			new Notice(`Created note: ${this.noteGenerator.generateFilename(this.entity)}`);
+			const content = await this.noteGenerator.generateNoteContent(this.entity, this.templatePath);
+			const file = await this.noteGenerator.createNoteWithContent(this.entity, content);
+			new Notice(`Saved note: ${file.basename}`);
 			this.close();
 		} catch (error) {
 			console.error('Error importing note:', error);
@@ -116,6 +187,24 @@ export class PreviewModal extends Modal {
 				border-radius: 6px;
 			}
 
+			.preview-existing-note {
+				color: var(--text-accent);
+				font-size: 0.9em;
+			}
+
+			.preview-template {
+				border-top: none;
+				padding: 8px 0;
+			}
+
+			.preview-template-error {
+				color: var(--text-error);
+				border: 1px solid var(--text-error);
+				padding: 8px 12px;
+				border-radius: 4px;
+				font-size: 0.9em;
+			}
+
 			.preview-buttons {
 				display: flex;
 				justify-content: flex-end;
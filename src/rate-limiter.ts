@@ -0,0 +1,81 @@
+/**
+ * Request spacing that adapts to the server: the interval between requests grows
+ * when the API throttles us and shrinks back towards the minimum as requests succeed.
+ */
+export class AdaptiveRateLimiter {
+	private minInterval: number;
+	private maxInterval: number;
+	private interval: number;
+	private lastRequestTime = 0;
+	private blockedUntil = 0;
+
+	constructor(minInterval = 100, maxInterval = 5000) {
+		this.minInterval = minInterval;
+		this.maxInterval = maxInterval;
+		this.interval = minInterval;
+	}
+
+	/**
+	 * Wait until the next request may be sent
+	 */
+	async wait() {
+		const now = Date.now();
+		const nextAllowed = Math.max(this.lastRequestTime + this.interval, this.blockedUntil);
+
+		if (nextAllowed > now) {
+			await sleep(nextAllowed - now);
+		}
+
+		this.lastRequestTime = Date.now();
+	}
+
+	onSuccess() {
+		this.interval = Math.max(this.minInterval, Math.floor(this.interval * 0.9));
+	}
+
+	/**
+	 * Slow down after a 429/503. A Retry-After delay also blocks all requests until it has passed.
+	 */
+	onThrottled(retryAfterMs?: number) {
+		this.interval = Math.min(this.maxInterval, this.interval * 2);
+
+		if (retryAfterMs !== undefined) {
+			this.blockedUntil = Math.max(this.blockedUntil, Date.now() + retryAfterMs);
+		}
+	}
+
+	getCurrentInterval(): number {
+		return this.interval;
+	}
+}
+
+export function sleep(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a Retry-After header value (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | undefined): number | undefined {
+	if (!value) return undefined;
+
+	const seconds = Number(value);
+	if (!isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(value);
+	if (!isNaN(date)) {
+		return Math.max(0, date - Date.now());
+	}
+
+	return undefined;
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half and all of base * 2^attempt
+ */
+export function backoffDelay(attempt: number, baseDelay = 1000, maxDelay = 30000): number {
+	const ceiling = Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+	return Math.floor(ceiling / 2 + Math.random() * ceiling / 2);
+}
@@ -1,180 +1,258 @@
-import { OpenSanctionsEntity, EnrichedEntity } from './types';
-import { OpenSanctionsApiClient } from './api-client';
-
-export interface ProcessedRelationship {
-	type: string;
-	targetEntity: string;
-	targetCaption?: string;
-	relationshipId: string;
-	properties: Record<string, string[]>;
+import { OpenSanctionsEntity, EnrichedEntity, RelatedEntity, RelationshipKind, RelationshipRecord, RelationshipType, SanctionRecord } from './types';
+
+// How an FtM interval schema connects the entity it is about to another entity
+interface RelationshipSchemaSpec {
+	source?: string;             // Property holding the "from" side. Absent when the adjacent entity is itself a detail (Address).
+	target?: string;             // Property holding the "to" side. Absent for details about a single entity.
+	outgoing: RelationshipKind;  // Kind when the entity is on the source side
+	incoming?: RelationshipKind; // Kind when the entity is on the target side
 }
 
-export class RelationshipProcessor {
-	private apiClient: OpenSanctionsApiClient;
-	private entityCache: Map<string, OpenSanctionsEntity> = new Map();
-
-	constructor(apiClient: OpenSanctionsApiClient) {
-		this.apiClient = apiClient;
-	}
+export const RELATIONSHIP_SCHEMAS: Record<string, RelationshipSchemaSpec> = {
+	Directorship: { source: 'director', target: 'organization', outgoing: 'directorOf', incoming: 'hasDirector' },
+	Ownership: { source: 'owner', target: 'asset', outgoing: 'ownerOf', incoming: 'ownedBy' },
+	Employment: { source: 'employee', target: 'employer', outgoing: 'employeeOf', incoming: 'employerOf' },
+	Membership: { source: 'member', target: 'organization', outgoing: 'memberOf', incoming: 'hasMember' },
+	Family: { source: 'person', target: 'relative', outgoing: 'family', incoming: 'family' },
+	Associate: { source: 'person', target: 'associate', outgoing: 'associate', incoming: 'associate' },
+	Succession: { source: 'predecessor', target: 'successor', outgoing: 'predecessorOf', incoming: 'successorOf' },
+	Representation: { source: 'agent', target: 'client', outgoing: 'representativeOf', incoming: 'representedBy' },
+	UnknownLink: { source: 'subject', target: 'object', outgoing: 'relatedTo', incoming: 'relatedTo' },
+	Occupancy: { source: 'holder', target: 'post', outgoing: 'holdsPosition', incoming: 'positionHolder' },
+	Sanction: { source: 'entity', outgoing: 'sanction' },
+	Identification: { source: 'holder', outgoing: 'identification' },
+	Address: { outgoing: 'address' }
+};
+
+// Human-readable label per kind, in display order
+export const RELATIONSHIP_LABELS: Record<RelationshipKind, string> = {
+	ownedBy: 'owned by',
+	ownerOf: 'owner of',
+	directorOf: 'director of',
+	hasDirector: 'director',
+	employeeOf: 'employee of',
+	employerOf: 'employer of',
+	memberOf: 'member of',
+	hasMember: 'member',
+	holdsPosition: 'holds position',
+	positionHolder: 'position holder',
+	family: 'family',
+	associate: 'associate',
+	predecessorOf: 'predecessor of',
+	successorOf: 'successor of',
+	representativeOf: 'representative of',
+	representedBy: 'represented by',
+	relatedTo: 'related to',
+	sanction: 'sanction',
+	identification: 'identification',
+	address: 'address'
+};
+
+// Which note relationship list each kind is written to. Kinds without an entry are not listed in frontmatter.
+export type RelationshipKeyMap = Partial<Record<RelationshipKind, RelationshipType>>;
+
+export const DEFAULT_RELATIONSHIP_KEY_MAP: RelationshipKeyMap = {
+	directorOf: 'directorOf',
+	ownerOf: 'ownerOf',
+	ownedBy: 'ownedBy',
+	employeeOf: 'employeeOf',
+	memberOf: 'memberOf',
+	family: 'family',
+	associate: 'coConspirator',
+	predecessorOf: 'relatedTo',
+	successorOf: 'relatedTo',
+	representativeOf: 'relatedTo',
+	representedBy: 'relatedTo',
+	relatedTo: 'relatedTo'
+};
+
+/**
+ * A relationship of one entity, read from an FtM relationship (interval) entity
+ */
+export interface ExtractedRelationship {
+	kind: RelationshipKind;
+	schema: string;                     // Schema of the relationship entity, e.g. "Ownership"
+	relationship: OpenSanctionsEntity;  // The relationship entity itself, for its dates, role and share
+	targetId: string | null;            // The entity at the other end; null for details such as Sanction
+	target: OpenSanctionsEntity | null; // The other end when the API embedded it
+}
 
-	async processEntityRelationships(entityId: string): Promise<ProcessedRelationship[]> {
-		try {
-			const adjacentEntities = await this.apiClient.getAdjacent(entityId);
-			const relationships: ProcessedRelationship[] = [];
+export interface ResolvedRelationship extends ExtractedRelationship {
+	targetCaption: string;
+	targetSchema: string;
+}
 
-			for (const rel of adjacentEntities) {
-				const processed = await this.processRelationshipEntity(rel, entityId);
-				if (processed) {
-					relationships.push(processed);
-				}
-			}
+// The parts of the API client the processor needs
+export interface EntityLookup {
+	getEntity(entityId: string): Promise<OpenSanctionsEntity>;
+	getAdjacent(entityId: string): Promise<OpenSanctionsEntity[]>;
+}
 
-			return relationships;
-		} catch (error) {
-			console.warn('Failed to process relationships for entity:', entityId, error);
-			return [];
+/**
+ * Extract an entity's relationships from its adjacent entities, using the schema table above.
+ * Adjacent entities that are not relationship schemas (e.g. a parent company) are skipped.
+ */
+export function extractRelationships(entityId: string, adjacent: OpenSanctionsEntity[]): ExtractedRelationship[] {
+	const relationships: ExtractedRelationship[] = [];
+	const seen = new Set<string>();
+
+	for (const rel of adjacent) {
+		const spec = rel && RELATIONSHIP_SCHEMAS[rel.schema];
+		if (!spec || seen.has(rel.id)) continue;
+		seen.add(rel.id);
+
+		const sourceValues = spec.source ? (rel.properties?.[spec.source] || []) as any[] : [];
+		const targetValues = spec.target ? (rel.properties?.[spec.target] || []) as any[] : [];
+
+		let kind: RelationshipKind | undefined;
+		let otherEnd: any[] = [];
+		if (!spec.source || containsEntity(sourceValues, entityId)) {
+			kind = spec.outgoing;
+			otherEnd = targetValues;
+		} else if (containsEntity(targetValues, entityId)) {
+			kind = spec.incoming;
+			otherEnd = sourceValues;
 		}
-	}
+		if (!kind) continue;
 
-	private async processRelationshipEntity(
-		rel: OpenSanctionsEntity,
-		sourceEntityId: string
-	): Promise<ProcessedRelationship | null> {
-		try {
-			const relType = this.getRelationshipType(rel.schema);
-			if (!relType) return null;
-
-			const targetEntityId = this.extractTargetEntity(rel, sourceEntityId);
-			if (!targetEntityId) return null;
-
-			// Try to get the target entity's caption for better display
-			let targetCaption: string | undefined;
-			try {
-				const targetEntity = await this.getEntityWithCache(targetEntityId);
-				targetCaption = targetEntity?.caption;
-			} catch {
-				// Ignore errors when fetching target entity
-			}
+		// Details about the entity itself have no other end
+		if (!spec.target) {
+			relationships.push({ kind, schema: rel.schema, relationship: rel, targetId: null, target: null });
+			continue;
+		}
 
-			return {
-				type: relType,
-				targetEntity: targetEntityId,
-				targetCaption,
-				relationshipId: rel.id,
-				properties: rel.properties
-			};
-		} catch (error) {
-			console.warn('Error processing relationship entity:', rel.id, error);
-			return null;
+		// One relationship per entity on the other end, e.g. each of several joint owners
+		const targetIds = new Set<string>();
+		for (const value of otherEnd) {
+			const targetId = getEntityId(value);
+			if (!targetId || targetId === entityId || targetIds.has(targetId)) continue;
+			targetIds.add(targetId);
+
+			relationships.push({
+				kind,
+				schema: rel.schema,
+				relationship: rel,
+				targetId,
+				target: typeof value === 'object' && value.schema ? value as OpenSanctionsEntity : null
+			});
 		}
 	}
 
-	private getRelationshipType(schema: string): string | null {
-		const relationshipTypes: Record<string, string> = {
-			'Directorship': 'directorship',
-			'Ownership': 'ownership',
-			'Family': 'family',
-			'Associate': 'associate',
-			'Succession': 'succession',
-			'UnknownLink': 'unknown_link',
-			'Representation': 'representation',
-			'Membership': 'membership',
-			'Employment': 'employment'
-		};
+	return relationships;
+}
 
-		return relationshipTypes[schema] || null;
-	}
+/**
+ * Entity ID of a property value that is either an ID string or an embedded entity
+ */
+export function getEntityId(value: any): string | null {
+	if (typeof value === 'string') return value;
+	if (value && typeof value === 'object' && value.id) return value.id;
+	return null;
+}
 
-	private extractTargetEntity(rel: OpenSanctionsEntity, sourceEntityId: string): string | null {
-		const props = rel.properties;
+function containsEntity(values: any[], entityId: string): boolean {
+	return values.some(value => getEntityId(value) === entityId);
+}
 
-		// For each relationship type, determine the target entity
-		switch (rel.schema) {
-			case 'Directorship':
-				if (props.director?.includes(sourceEntityId)) {
-					return props.organization?.[0] || null;
-				} else if (props.organization?.includes(sourceEntityId)) {
-					return props.director?.[0] || null;
-				}
-				break;
+/**
+ * First plain string value of a relationship property
+ */
+function firstString(entity: OpenSanctionsEntity, prop: string): string | undefined {
+	const value = (entity.properties?.[prop] || []).find(v => typeof v === 'string');
+	return value || undefined;
+}
 
-			case 'Ownership':
-				if (props.owner?.includes(sourceEntityId)) {
-					return props.asset?.[0] || null;
-				} else if (props.asset?.includes(sourceEntityId)) {
-					return props.owner?.[0] || null;
-				}
-				break;
+/**
+ * When a designation took effect: its listing date, or its start date if there is none
+ */
+export function getListedDate(sanction: SanctionRecord): string | undefined {
+	return sanction.listingDate || sanction.startDate;
+}
 
-			case 'Family':
-				if (props.person?.includes(sourceEntityId)) {
-					return props.relative?.[0] || null;
-				} else if (props.relative?.includes(sourceEntityId)) {
-					return props.person?.[0] || null;
-				}
-				break;
+export class RelationshipProcessor {
+	private lookup: EntityLookup;
+	private entityCache: Map<string, OpenSanctionsEntity | null> = new Map();
 
-			case 'Associate':
-				if (props.person?.includes(sourceEntityId)) {
-					return props.associate?.[0] || null;
-				} else if (props.associate?.includes(sourceEntityId)) {
-					return props.person?.[0] || null;
-				}
-				break;
-
-			case 'Succession':
-			case 'UnknownLink':
-				if (props.subject?.includes(sourceEntityId)) {
-					return props.object?.[0] || null;
-				} else if (props.object?.includes(sourceEntityId)) {
-					return props.subject?.[0] || null;
-				}
-				break;
+	constructor(lookup: EntityLookup) {
+		this.lookup = lookup;
+	}
 
-			case 'Membership':
-				if (props.member?.includes(sourceEntityId)) {
-					return props.organization?.[0] || null;
-				} else if (props.organization?.includes(sourceEntityId)) {
-					return props.member?.[0] || null;
-				}
-				break;
+	/**
+	 * Fetch and extract the relationships of an entity
+	 */
+	async processEntityRelationships(entityId: string): Promise<ResolvedRelationship[]> {
+		try {
+			const adjacent = await this.lookup.getAdjacent(entityId);
+			return await this.resolve(extractRelationships(entityId, adjacent), adjacent);
+		} catch (error) {
+			console.warn('Failed to process relationships for entity:', entityId, error);
+			return [];
+		}
+	}
 
-			case 'Employment':
-				if (props.employee?.includes(sourceEntityId)) {
-					return props.employer?.[0] || null;
-				} else if (props.employer?.includes(sourceEntityId)) {
-					return props.employee?.[0] || null;
+	/**
+	 * Fill in the caption and schema of the entity at the other end of each relationship.
+	 * Embedded entities are used where present; the rest are fetched once each.
+	 */
+	async resolve(relationships: ExtractedRelationship[], adjacent: OpenSanctionsEntity[] = []): Promise<ResolvedRelationship[]> {
+		// Entities embedded anywhere in the adjacent results
+		for (const item of adjacent) {
+			for (const values of Object.values(item?.properties || {})) {
+				for (const value of (values || []) as any[]) {
+					if (value && typeof value === 'object' && value.id && value.schema) {
+						this.entityCache.set(value.id, value);
+					}
 				}
-				break;
+			}
+		}
+
+		// The adjacent entities themselves, which carry their full properties
+		for (const item of adjacent) {
+			if (item?.id && item.schema) {
+				this.entityCache.set(item.id, item);
+			}
+		}
+
+		const resolved: ResolvedRelationship[] = [];
+		for (const rel of relationships) {
+			const target = rel.targetId
+				? rel.target || await this.getEntityWithCache(rel.targetId)
+				: null;
+
+			resolved.push({
+				...rel,
+				target,
+				targetCaption: target?.caption || rel.targetId || '',
+				targetSchema: target?.schema || 'LegalEntity'
+			});
 		}
 
-		return null;
+		return resolved;
 	}
 
 	private async getEntityWithCache(entityId: string): Promise<OpenSanctionsEntity | null> {
-		// Check cache first
 		if (this.entityCache.has(entityId)) {
 			return this.entityCache.get(entityId) || null;
 		}
 
 		try {
-			const entity = await this.apiClient.getEntity(entityId);
+			const entity = await this.lookup.getEntity(entityId);
 			this.entityCache.set(entityId, entity);
 			return entity;
 		} catch {
 			// Cache negative results too to avoid repeated requests
-			this.entityCache.set(entityId, null as any);
+			this.entityCache.set(entityId, null);
 			return null;
 		}
 	}
 
 	/**
-	 * Convert processed relationships to the structured format expected by the note generator
+	 * Group relationships into the note's relationship lists, by caption
 	 */
 	convertToStructuredRelationships(
-		relationships: ProcessedRelationship[],
-		sourceEntityId: string
-	): EnrichedEntity['relationships'] {
+		relationships: ResolvedRelationship[],
+		keyMap: RelationshipKeyMap = DEFAULT_RELATIONSHIP_KEY_MAP
+	): NonNullable<EnrichedEntity['relationships']> {
 		const structured = {
 			directorOf: [] as string[],
 			ownerOf: [] as string[],
@@ -187,58 +265,75 @@ export class RelationshipProcessor {
 		};
 
 		for (const rel of relationships) {
-			const displayName = rel.targetCaption || rel.targetEntity;
-
-			switch (rel.type) {
-				case 'directorship':
-					// Determine direction based on relationship properties
-					if (rel.properties.director?.includes(sourceEntityId)) {
-						structured.directorOf.push(displayName);
-					}
-					break;
-
-				case 'ownership':
-					if (rel.properties.owner?.includes(sourceEntityId)) {
-						structured.ownerOf.push(displayName);
-					} else if (rel.properties.asset?.includes(sourceEntityId)) {
-						structured.ownedBy.push(displayName);
-					}
-					break;
-
-				case 'employment':
-					if (rel.properties.employee?.includes(sourceEntityId)) {
-						structured.employeeOf.push(displayName);
-					}
-					break;
+			const key = keyMap[rel.kind];
+			if (key && rel.targetId && !structured[key].includes(rel.targetCaption)) {
+				structured[key].push(rel.targetCaption);
+			}
+		}
 
-				case 'membership':
-					if (rel.properties.member?.includes(sourceEntityId)) {
-						structured.memberOf.push(displayName);
-					}
-					break;
+		return structured;
+	}
 
-				case 'family':
-					structured.family.push(displayName);
-					break;
+	/**
+	 * Detailed records for the relationships that link to another entity
+	 */
+	toRecords(relationships: ResolvedRelationship[]): RelationshipRecord[] {
+		return relationships
+			.filter(rel => rel.targetId)
+			.map(rel => ({
+				type: rel.kind,
+				schema: rel.schema,
+				targetId: rel.targetId!,
+				targetCaption: rel.targetCaption,
+				targetSchema: rel.targetSchema,
+				targetTopics: (rel.target?.properties?.topics || []).filter(t => typeof t === 'string'),
+				role: firstString(rel.relationship, 'role') || firstString(rel.relationship, 'relationship'),
+				startDate: firstString(rel.relationship, 'startDate'),
+				endDate: firstString(rel.relationship, 'endDate'),
+				percentage: firstString(rel.relationship, 'percentage'),
+				sharesCount: firstString(rel.relationship, 'sharesCount'),
+				datasets: rel.relationship.datasets || []
+			}));
+	}
 
-				case 'associate':
-					structured.coConspirator.push(displayName);
-					break;
+	/**
+	 * Designations from Sanction entities, earliest listing first
+	 */
+	toSanctions(relationships: ExtractedRelationship[]): SanctionRecord[] {
+		const strings = (entity: OpenSanctionsEntity, prop: string) =>
+			(entity.properties?.[prop] || []).filter(v => typeof v === 'string');
+
+		return relationships
+			.filter(rel => rel.kind === 'sanction')
+			.map(rel => ({
+				authority: strings(rel.relationship, 'authority'),
+				program: firstString(rel.relationship, 'program'),
+				reason: firstString(rel.relationship, 'reason'),
+				listingDate: firstString(rel.relationship, 'listingDate'),
+				startDate: firstString(rel.relationship, 'startDate'),
+				endDate: firstString(rel.relationship, 'endDate'),
+				sourceUrl: firstString(rel.relationship, 'sourceUrl'),
+				datasets: rel.relationship.datasets || []
+			}))
+			.sort((a, b) => (getListedDate(a) || '9999').localeCompare(getListedDate(b) || '9999'));
+	}
 
-				default:
-					// Generic relationships
-					structured.relatedTo.push(displayName);
-					break;
+	/**
+	 * The distinct entities at the other end of the relationships, for stub notes
+	 */
+	toRelatedEntities(relationships: ResolvedRelationship[]): RelatedEntity[] {
+		const related = new Map<string, RelatedEntity>();
+		for (const rel of relationships) {
+			if (rel.targetId && !related.has(rel.targetId)) {
+				related.set(rel.targetId, {
+					id: rel.targetId,
+					caption: rel.targetCaption,
+					schema: rel.targetSchema,
+					properties: rel.target?.properties
+				});
 			}
 		}
-
-		// Remove duplicates
-		Object.keys(structured).forEach(key => {
-			const arr = structured[key as keyof typeof structured];
-			structured[key as keyof typeof structured] = [...new Set(arr)];
-		});
-
-		return structured;
+		return Array.from(related.values());
 	}
 
 	/**
@@ -247,14 +342,4 @@ export class RelationshipProcessor {
 	clearCache() {
 		this.entityCache.clear();
 	}
-
-	/**
-	 * Get cache statistics
-	 */
-	getCacheStats() {
-		return {
-			size: this.entityCache.size,
-			keys: Array.from(this.entityCache.keys())
-		};
-	}
-}
\ No newline at end of file
+}
@@ -0,0 +1,196 @@
+import { DataAdapter, Notice, debounce, normalizePath } from 'obsidian';
+import { CacheSettings } from './types';
+
+export type CacheKind = 'entity' | 'adjacent' | 'catalog';
+
+interface CacheEntry {
+	kind: CacheKind;
+	entityId: string;
+	data: any;
+	storedAt: number;
+	lastAccess: number;
+	size: number;
+	lastChange?: string; // The entity's last_change when the response was stored
+}
+
+export interface CacheStats {
+	entries: number;
+	sizeBytes: number;
+	byKind: Record<CacheKind, number>;
+}
+
+/**
+ * Persistent cache of API responses, stored as a JSON file in the plugin folder.
+ * Entries expire by TTL, are invalidated when the entity's `last_change` moves on,
+ * and the least recently used entries are evicted once the size cap is reached.
+ */
+export class ResponseCache {
+	private adapter: DataAdapter;
+	private filePath: string;
+	private settings: CacheSettings;
+	private entries: Map<string, CacheEntry> = new Map();
+	private totalSize = 0;
+	// Changes are written shortly after they happen, so little is lost if the app quits
+	private saveDebounced = debounce(() => {
+		this.save().catch(error => {
+			console.error(error);
+			new Notice(error.message);
+		});
+	}, 2000, true);
+
+	constructor(adapter: DataAdapter, folder: string, settings: CacheSettings) {
+		this.adapter = adapter;
+		this.filePath = normalizePath(`${folder}/cache/responses.json`);
+		this.settings = settings;
+	}
+
+	updateSettings(settings: CacheSettings) {
+		this.settings = settings;
+		if (this.evict()) {
+			this.saveDebounced();
+		}
+	}
+
+	isEnabled(): boolean {
+		return this.settings.enabled;
+	}
+
+	async load() {
+		try {
+			if (!(await this.adapter.exists(this.filePath))) return;
+
+			const stored = JSON.parse(await this.adapter.read(this.filePath)) as Record<string, CacheEntry>;
+			this.entries = new Map(Object.entries(stored));
+			this.totalSize = Array.from(this.entries.values()).reduce((sum, entry) => sum + entry.size, 0);
+		} catch (error) {
+			// A corrupt cache file is not worth failing over; start empty
+			console.warn('Could not load OpenSanctions response cache:', error);
+			this.entries.clear();
+			this.totalSize = 0;
+		}
+	}
+
+	/**
+	 * Write the cache to disk. Throws if the file can't be written.
+	 */
+	async save() {
+		try {
+			const folder = this.filePath.substring(0, this.filePath.lastIndexOf('/'));
+			if (!(await this.adapter.exists(folder))) {
+				await this.adapter.mkdir(folder);
+			}
+			const stored: Record<string, CacheEntry> = {};
+			this.entries.forEach((entry, key) => stored[key] = entry);
+			await this.adapter.write(this.filePath, JSON.stringify(stored));
+		} catch (error) {
+			throw new Error(`Could not save OpenSanctions response cache: ${error.message}`);
+		}
+	}
+
+	get(key: string): any | undefined {
+		if (!this.settings.enabled) return undefined;
+
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+
+		if (Date.now() - entry.storedAt > this.getTtlMs(entry.kind)) {
+			this.delete(key);
+			this.saveDebounced();
+			return undefined;
+		}
+
+		entry.lastAccess = Date.now();
+		return entry.data;
+	}
+
+	set(key: string, kind: CacheKind, entityId: string, data: any, lastChange?: string) {
+		if (!this.settings.enabled) return;
+
+		this.delete(key);
+
+		const size = JSON.stringify(data).length;
+		const now = Date.now();
+		this.entries.set(key, { kind, entityId, data, storedAt: now, lastAccess: now, size, lastChange });
+		this.totalSize += size;
+
+		this.evict();
+		this.saveDebounced();
+	}
+
+	/**
+	 * Drop cached responses for an entity if it has changed since they were stored
+	 */
+	invalidateIfChanged(entityId: string, lastChange: string | undefined) {
+		if (!lastChange) return;
+
+		const stale = Array.from(this.entries.values()).some(entry =>
+			entry.entityId === entityId && entry.lastChange && entry.lastChange < lastChange
+		);
+
+		if (stale) {
+			this.invalidateEntity(entityId);
+		}
+	}
+
+	invalidateEntity(entityId: string) {
+		for (const [key, entry] of this.entries) {
+			if (entry.entityId === entityId) {
+				this.delete(key);
+			}
+		}
+		this.saveDebounced();
+	}
+
+	async clear() {
+		this.entries.clear();
+		this.totalSize = 0;
+		await this.save();
+	}
+
+	getStats(): CacheStats {
+		const byKind: Record<CacheKind, number> = { entity: 0, adjacent: 0, catalog: 0 };
+		for (const entry of this.entries.values()) {
+			byKind[entry.kind]++;
+		}
+
+		return {
+			entries: this.entries.size,
+			sizeBytes: this.totalSize,
+			byKind
+		};
+	}
+
+	private delete(key: string) {
+		const entry = this.entries.get(key);
+		if (entry) {
+			this.totalSize -= entry.size;
+			this.entries.delete(key);
+		}
+	}
+
+	private getTtlMs(kind: CacheKind): number {
+		const ttlHours: Record<CacheKind, number> = {
+			entity: this.settings.entityTtlHours,
+			adjacent: this.settings.adjacentTtlHours,
+			catalog: this.settings.catalogTtlHours
+		};
+		return ttlHours[kind] * 60 * 60 * 1000;
+	}
+
+	/**
+	 * Evict least recently used entries until the cache fits its size cap.
+	 * Returns true if anything was evicted.
+	 */
+	private evict(): boolean {
+		const maxBytes = this.settings.maxSizeMB * 1024 * 1024;
+		if (this.totalSize <= maxBytes) return false;
+
+		const byAge = Array.from(this.entries.entries()).sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+		for (const [key] of byAge) {
+			if (this.totalSize <= maxBytes) break;
+			this.delete(key);
+		}
+
+		return true;
+	}
+}
@@ -0,0 +1,317 @@
+import { App, Modal, Setting, Notice } from 'obsidian';
+import { OpenSanctionsApiClient } from './api-client';
+import { PluginSettings, OpenSanctionsEntity, MatchQuery, MatchResult } from './types';
+import { getDatasetLabel } from './utils';
+import { formatScore } from './screening';
+
+// Form fields offered per schema. Values map directly to FtM property names.
+export const SCREENING_FIELDS: { property: string; label: string; placeholder: string; schemas: string[] }[] = [
+	{ property: 'name', label: 'Name', placeholder: 'Full name', schemas: ['Person', 'Company', 'Organization', 'LegalEntity', 'Vessel'] },
+	{ property: 'birthDate', label: 'Date of Birth', placeholder: 'YYYY-MM-DD or YYYY', schemas: ['Person'] },
+	{ property: 'nationality', label: 'Nationality', placeholder: 'Country code, e.g. ru', schemas: ['Person'] },
+	{ property: 'idNumber', label: 'ID Number', placeholder: 'Passport or national ID', schemas: ['Person'] },
+	{ property: 'country', label: 'Country', placeholder: 'Country code, e.g. cy', schemas: ['Company', 'Organization', 'LegalEntity'] },
+	{ property: 'registrationNumber', label: 'Registration Number', placeholder: 'Company registration number', schemas: ['Company', 'Organization', 'LegalEntity'] },
+	{ property: 'imoNumber', label: 'IMO Number', placeholder: 'IMO1234567', schemas: ['Vessel'] },
+	{ property: 'flag', label: 'Flag', placeholder: 'Country code, e.g. pa', schemas: ['Vessel'] }
+];
+
+export const SCREENING_SCHEMAS = ['Person', 'Company', 'Organization', 'LegalEntity', 'Vessel'];
+
+export class ScreeningModal extends Modal {
+	private apiClient: OpenSanctionsApiClient;
+	private settings: PluginSettings;
+	private onImport: (entities: OpenSanctionsEntity[]) => void;
+	private query: MatchQuery = { schema: 'Person', properties: {} };
+	private results: MatchResult[] = [];
+	private selectedIds: Set<string> = new Set();
+	private isLoading = false;
+
+	constructor(app: App, apiClient: OpenSanctionsApiClient, settings: PluginSettings) {
+		super(app);
+		this.apiClient = apiClient;
+		this.settings = settings;
+	}
+
+	setHandler(caller: any, handler: (entities: OpenSanctionsEntity[]) => void) {
+		this.onImport = handler.bind(caller);
+	}
+
+	/**
+	 * Open the modal with a query and results from an earlier screening run
+	 */
+	setInitialState(query: MatchQuery, results: MatchResult[] = []) {
+		this.query = { schema: query.schema, properties: { ...query.properties } };
+		this.results = results;
+		this.selectedIds = new Set(results.filter(r => r.match).map(r => r.id));
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Screen Entity - OpenSanctions' });
+
+		const description = contentEl.createEl('p', {
+			text: 'Fill in what you know about the counterparty. Separate multiple values with ";".'
+		});
+		description.addClass('setting-item-description');
+
+		this.formContainer = contentEl.createDiv('screening-form');
+		this.renderForm();
+
+		this.resultsContainer = contentEl.createDiv('screening-results');
+		this.actionContainer = contentEl.createDiv('screening-actions');
+		this.renderResults();
+
+		this.addStyles();
+	}
+
+	private renderForm() {
+		this.formContainer.empty();
+
+		new Setting(this.formContainer)
+			.setName('Entity Type')
+			.addDropdown(dropdown => {
+				SCREENING_SCHEMAS.forEach(schema => dropdown.addOption(schema, schema));
+				if (!SCREENING_SCHEMAS.includes(this.query.schema)) {
+					dropdown.addOption(this.query.schema, this.query.schema);
+				}
+				dropdown.setValue(this.query.schema);
+				dropdown.onChange((value) => {
+					this.query.schema = value;
+					this.renderForm();
+				});
+			});
+
+		for (const field of SCREENING_FIELDS) {
+			if (!field.schemas.includes(this.query.schema)) continue;
+
+			new Setting(this.formContainer)
+				.setName(field.label)
+				.addText(text => {
+					text.setPlaceholder(field.placeholder)
+						.setValue((this.query.properties[field.property] || []).join('; '))
+						.onChange((value) => {
+							this.query.properties[field.property] = value.split(';');
+						});
+					text.inputEl.addEventListener('keydown', (e) => {
+						if (e.key === 'Enter') {
+							this.runScreening();
+						}
+					});
+				});
+		}
+
+		new Setting(this.formContainer)
+			.addButton(button => button
+				.setButtonText('Screen')
+				.setCta()
+				.onClick(() => {
+					this.runScreening();
+				}));
+	}
+
+	/**
+	 * Form values entered for another schema are ignored. Properties without a form field
+	 * (e.g. from a prefilled query) are passed through unchanged.
+	 */
+	private buildQuery(): MatchQuery {
+		const properties: Record<string, string[]> = {};
+
+		for (const [property, values] of Object.entries(this.query.properties)) {
+			const field = SCREENING_FIELDS.find(f => f.property === property);
+			if (!field || field.schemas.includes(this.query.schema)) {
+				properties[property] = values;
+			}
+		}
+
+		return { schema: this.query.schema, properties };
+	}
+
+	private async runScreening() {
+		if (this.isLoading) return;
+
+		const query = this.buildQuery();
+		if (!query.properties.name?.some(name => name.trim())) {
+			new Notice('Please enter a name to screen');
+			return;
+		}
+
+		this.isLoading = true;
+		this.resultsContainer.empty();
+		this.resultsContainer.createDiv('loading-state').createEl('p', { text: 'Screening...' });
+
+		try {
+			this.results = await this.apiClient.match(query, {
+				threshold: this.settings.screeningThreshold
+			});
+
+			// Pre-select candidates the API considers a match
+			this.selectedIds = new Set(this.results.filter(r => r.match).map(r => r.id));
+		} catch (error) {
+			console.error('Screening failed:', error);
+			new Notice(`Screening failed: ${error.message}`);
+			this.results = [];
+		} finally {
+			this.isLoading = false;
+			this.renderResults();
+		}
+	}
+
+	private renderResults() {
+		this.resultsContainer.empty();
+
+		if (this.results.length === 0) {
+			this.renderActions();
+			return;
+		}
+
+		const matchCount = this.results.filter(r => r.match).length;
+		this.resultsContainer.createEl('h3', {
+			text: `Candidates (${this.results.length}, ${matchCount} above threshold)`
+		});
+
+		for (const result of this.results) {
+			this.createResultRow(this.resultsContainer, result);
+		}
+
+		this.renderActions();
+	}
+
+	private createResultRow(container: HTMLElement, result: MatchResult) {
+		const row = container.createDiv('screening-row');
+		if (result.match) {
+			row.addClass('is-match');
+		}
+
+		const checkbox = row.createEl('input', { type: 'checkbox' });
+		checkbox.checked = this.selectedIds.has(result.id);
+		checkbox.addEventListener('change', () => {
+			if (checkbox.checked) {
+				this.selectedIds.add(result.id);
+			} else {
+				this.selectedIds.delete(result.id);
+			}
+			this.renderActions();
+		});
+
+		const info = row.createDiv('screening-info');
+
+		const title = info.createDiv('screening-title');
+		title.createEl('span', { text: result.caption });
+		title.createEl('span', {
+			text: formatScore(result.score),
+			cls: 'screening-score'
+		});
+
+		info.createDiv({
+			text: `${result.schema} | ${result.datasets.slice(0, 3).map(getDatasetLabel).join(', ')}`,
+			cls: 'screening-meta'
+		});
+
+		// Match features explain how the score was computed
+		const features = Object.entries(result.features || {})
+			.filter(([, value]) => value !== 0)
+			.map(([name, value]) => `${name}: ${value.toFixed(2)}`);
+		if (features.length > 0) {
+			info.createDiv({
+				text: features.join(', '),
+				cls: 'screening-features'
+			});
+		}
+	}
+
+	private renderActions() {
+		this.actionContainer.empty();
+
+		const selectedCount = this.selectedIds.size;
+		if (selectedCount === 0) return;
+
+		const importButton = this.actionContainer.createEl('button', {
+			text: `Import ${selectedCount} Selected`,
+			cls: 'mod-cta'
+		});
+		importButton.addEventListener('click', () => {
+			this.importSelected();
+		});
+	}
+
+	private importSelected() {
+		const selected = this.results.filter(r => this.selectedIds.has(r.id));
+		if (selected.length === 0) return;
+
+		if (this.onImport) {
+			this.onImport(selected);
+		}
+
+		this.close();
+	}
+
+	private addStyles() {
+		const styleEl = document.createElement('style');
+		styleEl.textContent = `
+			.screening-results {
+				max-height: 350px;
+				overflow-y: auto;
+				margin-top: 10px;
+			}
+
+			.screening-row {
+				display: flex;
+				align-items: flex-start;
+				padding: 10px;
+				margin: 6px 0;
+				border: 1px solid var(--background-modifier-border);
+				border-radius: 6px;
+			}
+
+			.screening-row.is-match {
+				border-color: var(--color-red);
+			}
+
+			.screening-row input[type="checkbox"] {
+				margin-right: 12px;
+				margin-top: 2px;
+			}
+
+			.screening-info {
+				flex: 1;
+			}
+
+			.screening-title {
+				display: flex;
+				justify-content: space-between;
+				font-weight: 600;
+			}
+
+			.screening-score {
+				color: var(--text-accent);
+			}
+
+			.screening-meta,
+			.screening-features {
+				font-size: 0.85em;
+				color: var(--text-muted);
+				margin-top: 2px;
+			}
+
+			.screening-actions {
+				display: flex;
+				justify-content: flex-end;
+				margin-top: 15px;
+			}
+		`;
+		document.head.appendChild(styleEl);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	// Properties to store DOM references
+	private formContainer: HTMLDivElement;
+	private resultsContainer: HTMLDivElement;
+	private actionContainer: HTMLDivElement;
+}
@@ -0,0 +1,307 @@
+import { FieldConfig, MatchQuery, MatchResult } from './types';
+import { formatFrontmatter, getCountryCode, getDatasetLabel, replaceMarkedSection } from './utils';
+
+export const SCREENING_START_MARKER = '<!-- opensanctions-screening:start -->';
+export const SCREENING_END_MARKER = '<!-- opensanctions-screening:end -->';
+
+// FtM properties that carry identifying information worth sending to /match
+export const MATCHABLE_PROPERTIES = [
+	'name', 'alias', 'birthDate', 'nationality', 'country', 'jurisdiction',
+	'registrationNumber', 'taxNumber', 'innCode', 'ogrnCode', 'idNumber',
+	'passportNumber', 'imoNumber', 'flag', 'incorporationDate'
+];
+
+const COUNTRY_PROPERTIES = ['nationality', 'country', 'jurisdiction', 'flag'];
+
+// Properties that only make sense for one kind of entity, used to guess the schema
+const PERSON_PROPERTIES = ['birthDate', 'nationality', 'idNumber', 'passportNumber'];
+const COMPANY_PROPERTIES = ['registrationNumber', 'incorporationDate', 'ogrnCode', 'taxNumber', 'jurisdiction'];
+
+/**
+ * Build a /match query from a note's frontmatter.
+ * YAML keys are mapped back to FtM properties through the inverse of each schema's field
+ * configuration; keys that are already FtM property names are used as-is.
+ */
+export function buildQueryFromFrontmatter(
+	frontmatter: Record<string, unknown>,
+	noteTitle: string,
+	fieldConfigs: Record<string, FieldConfig>
+): MatchQuery {
+	const personProps = collectProperties(frontmatter, fieldConfigs.Person || {});
+	const companyProps = collectProperties(frontmatter, fieldConfigs.Company || fieldConfigs.LegalEntity || {});
+
+	let schema = 'LegalEntity';
+	let properties = companyProps;
+	if (PERSON_PROPERTIES.some(prop => personProps[prop])) {
+		schema = 'Person';
+		properties = personProps;
+	} else if (COMPANY_PROPERTIES.some(prop => companyProps[prop])) {
+		schema = 'Company';
+	}
+
+	// The note title is the primary name; frontmatter names become additional values
+	const names = [noteTitle, ...(properties.name || [])];
+	properties.name = [...new Set(names.map(n => n.trim()).filter(Boolean))];
+
+	return { schema, properties };
+}
+
+function collectProperties(frontmatter: Record<string, unknown>, fieldConfig: FieldConfig): Record<string, string[]> {
+	const yamlKeyToProperty: Record<string, string> = {};
+	for (const [apiField, config] of Object.entries(fieldConfig)) {
+		yamlKeyToProperty[config.yamlKey || apiField] = apiField;
+	}
+
+	const properties: Record<string, string[]> = {};
+	for (const [key, rawValue] of Object.entries(frontmatter)) {
+		const property = yamlKeyToProperty[key] || key;
+		if (!MATCHABLE_PROPERTIES.includes(property)) continue;
+
+		const values = toStringValues(rawValue).map(value =>
+			COUNTRY_PROPERTIES.includes(property) ? getCountryCode(value) : value
+		);
+		if (values.length === 0) continue;
+
+		properties[property] = [...(properties[property] || []), ...values];
+	}
+
+	return properties;
+}
+
+/**
+ * Normalise a frontmatter value to plain strings, unwrapping [[wikilinks]]
+ */
+function toStringValues(value: unknown): string[] {
+	const values = Array.isArray(value) ? value : [value];
+
+	return values
+		.filter(v => v !== null && v !== undefined && v !== '')
+		.map(v => String(v).replace(/^\[\[([^\]|]+)(\|[^\]]*)?\]\]$/, '$1').trim())
+		.filter(Boolean);
+}
+
+/**
+ * Render the screening result block written into a note.
+ * `linkTarget` is the note name the best match is (or would be) imported as.
+ */
+export function renderScreeningBlock(results: MatchResult[], threshold: number, linkTarget: string | null): string {
+	const lines: string[] = [SCREENING_START_MARKER, '## OpenSanctions Screening', ''];
+	const timestamp = new Date().toISOString().replace('T', ' ').substring(0, 16);
+	const best = results[0];
+
+	if (best && best.score >= threshold) {
+		lines.push(`> [!WARNING] Possible match (${formatScore(best.score)})`);
+		lines.push(`> - **Score:** ${formatScore(best.score)}`);
+		lines.push(`> - **Matched entity:** [[${linkTarget || best.caption}]]`);
+		lines.push(`> - **OpenSanctions ID:** [${best.id}](https://opensanctions.org/entities/${best.id})`);
+		lines.push(`> - **Datasets:** ${best.datasets.map(getDatasetLabel).join(', ')}`);
+	} else {
+		lines.push('> [!SUCCESS] No match above threshold');
+		if (best) {
+			lines.push(`> - **Best candidate:** ${best.caption} (${formatScore(best.score)})`);
+		}
+	}
+
+	lines.push(`> - **Threshold:** ${formatScore(threshold)}`);
+	lines.push(`> - **Screened:** ${timestamp} UTC`);
+	lines.push(SCREENING_END_MARKER);
+
+	return lines.join('\n');
+}
+
+/**
+ * Replace the screening block in note content, or append one if there is none yet
+ */
+export function upsertScreeningBlock(content: string, block: string): string {
+	const replaced = replaceMarkedSection(content, SCREENING_START_MARKER, SCREENING_END_MARKER, block);
+	if (replaced !== null) {
+		return replaced;
+	}
+
+	return `${content.replace(/\s*$/, '')}\n\n${block}\n`;
+}
+
+export function formatScore(score: number): string {
+	return `${(score * 100).toFixed(0)}%`;
+}
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells, escaped quotes and
+ * embedded newlines; the delimiter (comma, semicolon or tab) is detected from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+	const firstLine = text.split(/\r?\n/, 1)[0] || '';
+	const delimiter = [',', ';', '\t']
+		.map(d => ({ d, count: firstLine.split(d).length }))
+		.sort((a, b) => b.count - a.count)[0].d;
+
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = '';
+	let inQuotes = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (inQuotes) {
+			if (char === '"' && text[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === delimiter) {
+			row.push(cell.trim());
+			cell = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') i++;
+			row.push(cell.trim());
+			rows.push(row);
+			row = [];
+			cell = '';
+		} else {
+			cell += char;
+		}
+	}
+
+	if (cell || row.length > 0) {
+		row.push(cell.trim());
+		rows.push(row);
+	}
+
+	// Drop blank lines
+	return rows.filter(r => r.some(c => c !== ''));
+}
+
+/**
+ * Extract the first Markdown table from note content as rows of cells (header first).
+ * Returns null if the content has no table.
+ */
+export function parseMarkdownTable(content: string): string[][] | null {
+	const lines = content.split(/\r?\n/);
+	const isRow = (line: string) => /^\s*\|.*\|\s*$/.test(line);
+	const isSeparator = (line: string) => /^\s*\|(\s*:?-+:?\s*\|)+\s*$/.test(line);
+
+	for (let i = 0; i < lines.length - 1; i++) {
+		if (!isRow(lines[i]) || !isSeparator(lines[i + 1])) continue;
+
+		const rows: string[][] = [splitTableRow(lines[i])];
+		for (let j = i + 2; j < lines.length && isRow(lines[j]); j++) {
+			rows.push(splitTableRow(lines[j]));
+		}
+		return rows;
+	}
+
+	return null;
+}
+
+function splitTableRow(line: string): string[] {
+	// Protect escaped pipes while splitting on cell boundaries
+	return line
+		.trim()
+		.replace(/^\||\|$/g, '')
+		.replace(/\\\|/g, '\u0000')
+		.split('|')
+		.map(cell => cell.replace(/\u0000/g, '|').trim());
+}
+
+/**
+ * Guess the FtM property for a spreadsheet column header
+ */
+export function guessPropertyForColumn(header: string): string {
+	const normalized = header.toLowerCase().replace(/[^a-z]/g, '');
+	const guesses: Record<string, string> = {
+		name: 'name',
+		fullname: 'name',
+		counterparty: 'name',
+		companyname: 'name',
+		alias: 'alias',
+		aliases: 'alias',
+		dob: 'birthDate',
+		birthdate: 'birthDate',
+		dateofbirth: 'birthDate',
+		nationality: 'nationality',
+		citizenship: 'nationality',
+		country: 'country',
+		jurisdiction: 'jurisdiction',
+		registrationnumber: 'registrationNumber',
+		regno: 'registrationNumber',
+		companynumber: 'registrationNumber',
+		taxnumber: 'taxNumber',
+		tin: 'taxNumber',
+		vat: 'taxNumber',
+		inn: 'innCode',
+		ogrn: 'ogrnCode',
+		idnumber: 'idNumber',
+		passport: 'passportNumber',
+		passportnumber: 'passportNumber',
+		imo: 'imoNumber',
+		imonumber: 'imoNumber'
+	};
+
+	return guesses[normalized] || '';
+}
+
+export interface BatchScreeningRow {
+	input: string[];
+	query: MatchQuery;
+	results: MatchResult[];
+	error?: string;
+}
+
+/**
+ * Render the results note for a batch screening run
+ */
+export function renderBatchResultsNote(
+	rows: BatchScreeningRow[],
+	headers: string[],
+	source: string,
+	threshold: number
+): string {
+	const now = new Date().toISOString();
+	const matchCount = rows.filter(r => r.results[0] && r.results[0].score >= threshold).length;
+	const escape = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+	const lines: string[] = [
+		formatFrontmatter({
+			screening_source: source,
+			screened: now.split('T')[0],
+			threshold,
+			rows: rows.length,
+			matches: matchCount
+		}),
+		'',
+		`# Batch Screening: ${source}`,
+		'',
+		`Screened ${rows.length} rows on ${now.replace('T', ' ').substring(0, 16)} UTC. ${matchCount} at or above the ${formatScore(threshold)} threshold.`,
+		'',
+		`| # | ${headers.map(escape).join(' | ')} | Best Score | Matched Entity | Datasets | Status |`,
+		`|---|${headers.map(() => '---').join('|')}|---|---|---|---|`
+	];
+
+	rows.forEach((row, index) => {
+		const best = row.results[0];
+		const cells = headers.map((_, i) => escape(row.input[i] || ''));
+		let scoreCell = '';
+		let entityCell = '';
+		let datasetsCell = '';
+		let status = 'No match';
+
+		if (row.error) {
+			status = `Error: ${escape(row.error)}`;
+		} else if (best) {
+			scoreCell = formatScore(best.score);
+			entityCell = `[${escape(best.caption)}](https://opensanctions.org/entities/${best.id})`;
+			datasetsCell = best.datasets.slice(0, 3).map(getDatasetLabel).map(escape).join(', ');
+			status = best.score >= threshold ? '**Match**' : 'Below threshold';
+		}
+
+		lines.push(`| ${index + 1} | ${cells.join(' | ')} | ${scoreCell} | ${entityCell} | ${datasetsCell} | ${status} |`);
+	});
+
+	return lines.join('\n') + '\n';
+}
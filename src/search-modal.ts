@@ -1,13 +1,22 @@
 import { App, Modal, Setting, Notice } from 'obsidian';
 import { OpenSanctionsApiClient } from './api-client';
-import { PluginSettings, OpenSanctionsEntity, SearchParams, ImportMode } from './types';
+import { PluginSettings, OpenSanctionsEntity, SearchParams, SearchResponse, ImportMode, Facet } from './types';
 import { PreviewModal } from './preview-modal';
+import { NoteGenerator } from './note-generator';
+import { EntityIndex } from './entity-index';
+import { getCountryName } from './utils';
+import { CatalogDataset, CatalogSchema, FALLBACK_SCHEMAS, collectSchemata, formatCount, groupDatasets, parseCatalog } from './catalog';
+
+// Search parameters that can be narrowed from facet panels
+type FacetKey = 'countries' | 'topics' | 'datasets';
 
 export class SearchModal extends Modal {
 	private apiClient: OpenSanctionsApiClient;
 	private settings: PluginSettings;
+	private entityIndex: EntityIndex;
 	private mode: ImportMode;
 	private onSelect: (entities: OpenSanctionsEntity[]) => void;
+	private onNetworkImport: ((entity: OpenSanctionsEntity) => void) | null = null;
 	private searchResults: OpenSanctionsEntity[] = [];
 	private selectedEntities: Set<string> = new Set();
 	private currentSearchParams: SearchParams = { query: '' };
@@ -15,16 +24,26 @@ export class SearchModal extends Modal {
 	private currentOffset = 0;
 	private isLoading = false;
 	private allCurrentPageSelected = false;
+	private facets: SearchResponse['facets'] | null = null;
+	private facetLabels: Map<string, string> = new Map();
 
-	constructor(app: App, apiClient: OpenSanctionsApiClient, settings: PluginSettings, mode: ImportMode = ImportMode.STANDARD) {
+	constructor(app: App, apiClient: OpenSanctionsApiClient, settings: PluginSettings, entityIndex: EntityIndex, mode: ImportMode = ImportMode.STANDARD) {
 		super(app);
 		this.apiClient = apiClient;
 		this.settings = settings;
+		this.entityIndex = entityIndex;
 		this.mode = mode;
 	}
 
 	setHandler(caller: any, handler: (entities: OpenSanctionsEntity[]) => void) {
-		this.onSelect = handler;
+		this.onSelect = handler.bind(caller);
+	}
+
+	/**
+	 * Offer "Import Network" for a single selected entity
+	 */
+	setNetworkHandler(caller: any, handler: (entity: OpenSanctionsEntity) => void) {
+		this.onNetworkImport = handler.bind(caller);
 	}
 
 	onOpen() {
@@ -35,6 +54,7 @@ export class SearchModal extends Modal {
 		contentEl.createEl('h2', { text: title });
 
 		this.createSearchForm(contentEl);
+		this.facetsContainer = contentEl.createDiv('search-facets');
 		this.createResultsSection(contentEl);
 		this.createActionButtons(contentEl);
 
@@ -80,17 +100,12 @@ export class SearchModal extends Modal {
 	private createFilters(container: HTMLElement) {
 		const filtersRow = container.createDiv('filters-row');
 
-		// Entity Type filter
+		// Entity Type filter (populated from the catalog once loaded)
 		new Setting(filtersRow)
 			.setName('Entity Type')
 			.addDropdown(dropdown => {
-				dropdown.addOption('', 'All Types');
-				dropdown.addOption('Person', 'Person');
-				dropdown.addOption('Company', 'Company');
-				dropdown.addOption('LegalEntity', 'Legal Entity');
-				dropdown.addOption('Vessel', 'Vessel');
-				dropdown.addOption('Airplane', 'Airplane');
-				dropdown.addOption('CryptoWallet', 'Crypto Wallet');
+				this.schemaSelect = dropdown.selectEl;
+				this.populateSchemaOptions(FALLBACK_SCHEMAS);
 				dropdown.onChange((value) => {
 					this.currentSearchParams.schema = value || undefined;
 				});
@@ -100,6 +115,7 @@ export class SearchModal extends Modal {
 		new Setting(filtersRow)
 			.setName('Topics')
 			.addDropdown(dropdown => {
+				this.topicsSelect = dropdown.selectEl;
 				dropdown.addOption('', 'Any Topic');
 				dropdown.addOption('sanction', 'Sanctioned');
 				dropdown.addOption('role.pep', 'Politicians (PEP)');
@@ -107,26 +123,86 @@ export class SearchModal extends Modal {
 				dropdown.addOption('role.oligarch', 'Oligarchs');
 				dropdown.addOption('wanted', 'Wanted');
 				dropdown.addOption('debarment', 'Debarred');
+				// The dropdown adds one topic alongside those picked from the facets
 				dropdown.onChange((value) => {
-					this.currentSearchParams.topics = value ? [value] : undefined;
+					const previous = this.topicsSelectValue;
+					this.topicsSelectValue = value;
+					if (previous) {
+						this.removeFacetValue('topics', previous);
+					}
+					const topics = this.currentSearchParams.topics || [];
+					if (value && !topics.includes(value)) {
+						this.currentSearchParams.topics = [...topics, value];
+					}
+					this.renderFacets();
 				});
 			});
 
-		// Dataset filter
+		// Dataset filter (populated from the catalog once loaded)
 		new Setting(filtersRow)
 			.setName('Dataset')
 			.addDropdown(dropdown => {
+				this.datasetSelect = dropdown.selectEl;
 				dropdown.addOption('', 'All Datasets');
-				dropdown.addOption('us_ofac_sdn', 'US OFAC SDN');
-				dropdown.addOption('eu_fsf', 'EU Financial Sanctions');
-				dropdown.addOption('gb_icdo_sanctions', 'UK Consolidated Sanctions');
-				dropdown.addOption('ca_dfatd_sema_sanctions', 'Canada SEMA');
-				dropdown.addOption('au_dfat_sanctions', 'Australia DFAT');
-				dropdown.addOption('un_sc_sanctions', 'UN Security Council');
 				dropdown.onChange((value) => {
 					this.currentSearchParams.dataset = value || undefined;
 				});
 			});
+
+		this.loadCatalog();
+	}
+
+	/**
+	 * Fill the schema and dataset dropdowns from the live catalog (served from the response cache when fresh)
+	 */
+	private async loadCatalog() {
+		try {
+			const datasets = parseCatalog(await this.apiClient.getCatalog());
+			if (datasets.length === 0) return;
+
+			this.populateSchemaOptions(collectSchemata(datasets));
+			this.populateDatasetOptions(datasets);
+		} catch (error) {
+			// Keep the built-in schema list if the catalog is unavailable
+			console.warn('Could not load dataset catalog:', error);
+		}
+	}
+
+	private populateSchemaOptions(schemata: CatalogSchema[]) {
+		const selected = this.schemaSelect.value;
+		this.schemaSelect.empty();
+
+		this.schemaSelect.createEl('option', { text: 'All Types', value: '' });
+		for (const schema of schemata) {
+			this.schemaSelect.createEl('option', {
+				text: `${schema.label}${formatCount(schema.count)}`,
+				value: schema.name
+			});
+		}
+
+		this.schemaSelect.value = selected;
+	}
+
+	private populateDatasetOptions(datasets: CatalogDataset[]) {
+		const selected = this.datasetSelect.value;
+		this.datasetSelect.empty();
+
+		this.datasetSelect.createEl('option', { text: 'All Datasets', value: '' });
+		for (const group of groupDatasets(datasets)) {
+			const optgroup = this.datasetSelect.createEl('optgroup');
+			optgroup.label = group.label;
+
+			for (const dataset of group.datasets) {
+				const publisher = dataset.publisher && group.label !== 'Collections' ? ` - ${dataset.publisher}` : '';
+				const option = optgroup.createEl('option', {
+					text: `${dataset.title}${formatCount(dataset.entityCount)}`,
+					value: dataset.name
+				});
+				option.title = `${dataset.name}${publisher}`;
+			}
+		}
+
+		this.datasetSelect.value = selected;
 	}
 
 	private createResultsSection(container: HTMLElement) {
@@ -216,6 +292,15 @@ export class SearchModal extends Modal {
 			cls: 'entity-title'
 		});
 
+		// Flag entities that already have a note in the vault
+		const existingNote = this.entityIndex.findByEntity(entity);
+		if (existingNote) {
+			title.createEl('span', {
+				text: `In vault: ${existingNote.basename}`,
+				cls: 'entity-existing-note'
+			});
+		}
+
 		// Metadata
 		const metadata = infoContainer.createEl('div', { cls: 'entity-metadata' });
 
@@ -300,6 +385,15 @@ export class SearchModal extends Modal {
 					this.previewSelected();
 				});
 
+				if (selectedCount === 1 && this.onNetworkImport) {
+					const networkButton = buttonContainer.createEl('button', {
+						text: 'Import Network'
+					});
+					networkButton.addEventListener('click', () => {
+						this.importNetworkSelected();
+					});
+				}
+
 				const importButton = buttonContainer.createEl('button', {
 					text: 'Import Selected',
 					cls: 'mod-cta'
@@ -317,6 +411,31 @@ export class SearchModal extends Modal {
 					this.quickImportSelected();
 				});
 			}
+
+			this.renderDestinationPreview(this.actionContainer);
+		}
+	}
+
+	/**
+	 * Where each selected entity will be written, following the folder rules
+	 */
+	private renderDestinationPreview(container: HTMLElement) {
+		const selected = this.searchResults.filter(e => this.selectedEntities.has(e.id));
+		const noteGenerator = new NoteGenerator(this.app, this.settings, this.entityIndex);
+		const preview = container.createDiv('destination-preview');
+
+		selected.slice(0, 10).forEach(entity => {
+			const existingNote = noteGenerator.findExistingNote(entity);
+			const row = preview.createDiv('destination-row');
+			row.createSpan({ text: entity.caption, cls: 'destination-entity' });
+			row.createSpan({
+				text: existingNote ? `→ updates ${existingNote.path}` : `→ ${noteGenerator.getNewNotePath(entity)}`,
+				cls: 'destination-path'
+			});
+		});
+
+		if (selected.length > 10) {
+			preview.createDiv({ text: `…and ${selected.length - 10} more`, cls: 'destination-more' });
 		}
 	}
 
@@ -342,9 +461,11 @@ export class SearchModal extends Modal {
 
 			this.searchResults = response.results || [];
 			this.totalResults = response.total?.value || 0;
+			this.facets = response.facets || null;
 			this.selectedEntities.clear();
 			this.allCurrentPageSelected = false;
 
+			this.renderFacets();
 			this.updateResultsHeader();
 			this.createResultsList();
 			this.updateSelectAllState();
@@ -382,6 +503,127 @@ export class SearchModal extends Modal {
 		}
 	}
 
+	/**
+	 * Render active filter chips and facet panels (countries, topics, datasets) with counts
+	 */
+	private renderFacets() {
+		this.facetsContainer.empty();
+		this.renderActiveFilterChips(this.facetsContainer);
+
+		if (!this.facets) return;
+
+		const panels = this.facetsContainer.createDiv('facet-panels');
+		this.renderFacetPanel(panels, 'countries', this.facets.countries);
+		this.renderFacetPanel(panels, 'topics', this.facets.topics);
+		this.renderFacetPanel(panels, 'datasets', this.facets.datasets);
+	}
+
+	private renderFacetPanel(container: HTMLElement, key: FacetKey, facet: Facet | undefined) {
+		if (!facet || !facet.values || facet.values.length === 0) return;
+
+		const selected = this.currentSearchParams[key] || [];
+		const panel = container.createDiv('facet-panel');
+		panel.createEl('div', { text: facet.label || key, cls: 'facet-title' });
+
+		// Show the most common values, plus anything already selected
+		const values = facet.values
+			.filter((value, index) => index < 10 || selected.includes(value.name));
+
+		for (const value of values) {
+			this.facetLabels.set(`${key}:${value.name}`, value.label || value.name);
+
+			const item = panel.createEl('label', { cls: 'facet-value' });
+			const checkbox = item.createEl('input', { type: 'checkbox' });
+			checkbox.checked = selected.includes(value.name);
+			checkbox.addEventListener('change', () => {
+				this.toggleFacetValue(key, value.name);
+			});
+			item.createEl('span', { text: value.label || value.name });
+			item.createEl('span', { text: value.count.toLocaleString(), cls: 'facet-count' });
+		}
+	}
+
+	private renderActiveFilterChips(container: HTMLElement) {
+		const chips: { label: string; remove: () => void }[] = [];
+
+		if (this.currentSearchParams.schema) {
+			chips.push({
+				label: `Type: ${this.currentSearchParams.schema}`,
+				remove: () => {
+					this.currentSearchParams.schema = undefined;
+					this.schemaSelect.value = '';
+				}
+			});
+		}
+
+		if (this.currentSearchParams.dataset) {
+			chips.push({
+				label: `Scope: ${this.currentSearchParams.dataset}`,
+				remove: () => {
+					this.currentSearchParams.dataset = undefined;
+					this.datasetSelect.value = '';
+				}
+			});
+		}
+
+		const facetKeys: FacetKey[] = ['countries', 'topics', 'datasets'];
+		for (const key of facetKeys) {
+			for (const name of this.currentSearchParams[key] || []) {
+				const fallback = key === 'countries' ? getCountryName(name) : name;
+				chips.push({
+					label: this.facetLabels.get(`${key}:${name}`) || fallback,
+					remove: () => this.removeFacetValue(key, name)
+				});
+			}
+		}
+
+		if (chips.length === 0) return;
+
+		const chipRow = container.createDiv('filter-chips');
+		for (const chip of chips) {
+			const chipEl = chipRow.createDiv('filter-chip');
+			chipEl.createEl('span', { text: chip.label });
+			const removeButton = chipEl.createEl('button', { text: '×', cls: 'filter-chip-remove' });
+			removeButton.setAttribute('aria-label', `Remove filter ${chip.label}`);
+			removeButton.addEventListener('click', () => {
+				chip.remove();
+				this.requery();
+			});
+		}
+	}
+
+	private toggleFacetValue(key: FacetKey, name: string) {
+		const values = this.currentSearchParams[key] || [];
+		if (values.includes(name)) {
+			this.removeFacetValue(key, name);
+		} else {
+			this.currentSearchParams[key] = [...values, name];
+		}
+		this.requery();
+	}
+
+	private removeFacetValue(key: FacetKey, name: string) {
+		const remaining = (this.currentSearchParams[key] || []).filter(v => v !== name);
+		this.currentSearchParams[key] = remaining.length > 0 ? remaining : undefined;
+
+		// Keep the topics dropdown in sync when its value is removed
+		if (key === 'topics' && this.topicsSelectValue === name) {
+			this.topicsSelectValue = '';
+			this.topicsSelect.value = '';
+		}
+	}
+
+	/**
+	 * Re-run the current search after a filter change, or just refresh the chips if nothing was searched yet
+	 */
+	private requery() {
+		if (this.searchInput.value.trim()) {
+			this.performSearch();
+		} else {
+			this.renderFacets();
+		}
+	}
+
 	private showLoadingState() {
 		const loadingEl = this.resultsContainer.createDiv('loading-state');
 		loadingEl.createEl('p', { text: 'Searching...' });
@@ -402,7 +644,7 @@ export class SearchModal extends Modal {
 		const entity = this.searchResults.find(e => e.id === firstSelectedId);
 
 		if (entity) {
-			const previewModal = new PreviewModal(this.app, entity, this.settings);
+			const previewModal = new PreviewModal(this.app, entity, this.settings, this.entityIndex);
 			previewModal.open();
 		}
 	}
@@ -425,6 +667,14 @@ export class SearchModal extends Modal {
 		this.close();
 	}
 
+	private importNetworkSelected() {
+		const entity = this.searchResults.find(e => this.selectedEntities.has(e.id));
+		if (!entity || !this.onNetworkImport) return;
+
+		this.close();
+		this.onNetworkImport(entity);
+	}
+
 	private quickImportSelected() {
 		const selectedResults = this.searchResults.filter(e => this.selectedEntities.has(e.id));
 
@@ -631,6 +881,80 @@ export class SearchModal extends Modal {
 				margin-bottom: 4px;
 			}
 
+			.search-facets {
+				flex-shrink: 0;
+			}
+
+			.filter-chips {
+				display: flex;
+				flex-wrap: wrap;
+				gap: 6px;
+				margin-bottom: 10px;
+			}
+
+			.filter-chip {
+				display: flex;
+				align-items: center;
+				gap: 4px;
+				padding: 2px 4px 2px 10px;
+				border-radius: 12px;
+				background: var(--background-secondary);
+				border: 1px solid var(--interactive-accent);
+				font-size: 0.85em;
+			}
+
+			.filter-chip-remove {
+				padding: 0 6px;
+				border: none;
+				background: transparent;
+				box-shadow: none;
+				cursor: pointer;
+			}
+
+			.facet-panels {
+				display: flex;
+				gap: 15px;
+				max-height: 160px;
+				overflow-y: auto;
+				margin-bottom: 10px;
+			}
+
+			.facet-panel {
+				flex: 1;
+				min-width: 0;
+			}
+
+			.facet-title {
+				font-weight: 600;
+				margin-bottom: 4px;
+			}
+
+			.facet-value {
+				display: flex;
+				align-items: center;
+				gap: 6px;
+				font-size: 0.85em;
+				cursor: pointer;
+			}
+
+			.facet-value span:first-of-type {
+				flex: 1;
+				overflow: hidden;
+				text-overflow: ellipsis;
+				white-space: nowrap;
+			}
+
+			.facet-count {
+				color: var(--text-muted);
+			}
+
+			.entity-existing-note {
+				margin-left: 8px;
+				font-size: 0.8em;
+				font-weight: normal;
+				color: var(--text-accent);
+			}
+
 			.entity-metadata {
 				font-size: 0.9em;
 				color: var(--text-muted);
@@ -688,6 +1012,24 @@ export class SearchModal extends Modal {
 				font-size: 0.9em;
 			}
 
+			.destination-preview {
+				margin-top: 8px;
+				font-size: 0.85em;
+				max-height: 120px;
+				overflow-y: auto;
+			}
+
+			.destination-row {
+				display: flex;
+				gap: 6px;
+			}
+
+			.destination-path,
+			.destination-more {
+				color: var(--text-muted);
+				font-family: var(--font-monospace);
+			}
+
 			.button-container button {
 				margin-left: 10px;
 				padding: 8px 16px;
@@ -739,4 +1081,9 @@ export class SearchModal extends Modal {
 	private resultsContainer: HTMLDivElement;
 	private resultsHeader: HTMLDivElement;
 	private actionContainer: HTMLDivElement;
+	private facetsContainer: HTMLDivElement;
+	private schemaSelect: HTMLSelectElement;
+	private datasetSelect: HTMLSelectElement;
+	private topicsSelect: HTMLSelectElement;
+	private topicsSelectValue: string = '';
 }
\ No newline at end of file
@@ -0,0 +1,276 @@
+import * as Handlebars from 'handlebars';
+import { OpenSanctionsEntity, EnrichedEntity, RelatedEntity, RelationshipRecord, SanctionRecord } from './types';
+import { RELATIONSHIP_LABELS, getListedDate } from './relationship-processor';
+import { formatDate, getCountryName, getDatasetLabel, getTopicLabels, sanitizeWikilink } from './utils';
+
+/**
+ * A relationship as seen by templates: the stored record plus display helpers
+ */
+export interface TemplateRelationship extends RelationshipRecord {
+	label: string;    // Human-readable type, e.g. "owned by"
+	link: string;     // Wikilink to the related entity's note, e.g. "[[Acme Ltd]]"
+	current: boolean; // False once the end date has passed
+}
+
+export interface TemplateImportInfo {
+	date: string;      // Import date, YYYY-MM-DD
+	sourceUrl: string; // The entity's page on opensanctions.org
+	folder: string;    // Folder the note is written to
+	filename: string;  // Note filename, with extension
+}
+
+/**
+ * Everything a note template can use. `properties` holds every FtM property as a list;
+ * the single-value fields are shortcuts for the first value of the common ones.
+ */
+export interface TemplateContext {
+	// The entity as returned by the API
+	id: string;
+	caption: string;
+	schema: string;
+	properties: Record<string, string[]>;
+	datasets: string[];
+	referents: string[];
+	target: boolean;
+	first_seen: string;
+	last_seen: string;
+	last_change?: string;
+
+	// First values for easy access
+	name: string;
+	birthDate?: string;
+	birthPlace?: string;
+	nationality?: string;
+	position?: string;
+	country?: string;
+	description?: string;
+
+	// Topics and flags
+	topics: string[];
+	topicLabels: string[];
+	datasetLabels: string[];
+	hasSanctions: boolean;
+	isPep: boolean;
+	isOligarch: boolean;
+
+	// Relationships, when the entity was fetched with them
+	relationships: NonNullable<EnrichedEntity['relationships']>;
+	relationshipRecords: TemplateRelationship[];
+	relatedEntities: RelatedEntity[];
+
+	// Designations from Sanction entities, earliest first
+	sanctions: SanctionRecord[];
+	firstListed?: string;
+	sanctionAuthorities: string[];
+
+	import: TemplateImportInfo;
+}
+
+const EMPTY_RELATIONSHIPS: TemplateContext['relationships'] = {
+	directorOf: [],
+	ownerOf: [],
+	ownedBy: [],
+	employeeOf: [],
+	memberOf: [],
+	relatedTo: [],
+	family: [],
+	coConspirator: []
+};
+
+/**
+ * Build the template context for an entity. `linkTo` gives the wikilink for a related entity's note.
+ */
+export function buildTemplateContext(
+	entity: OpenSanctionsEntity,
+	importInfo: TemplateImportInfo,
+	linkTo: (related: RelatedEntity) => string
+): TemplateContext {
+	const enriched = entity as EnrichedEntity;
+	const properties = entity.properties || {};
+	const topics = properties.topics || [];
+	const today = new Date().toISOString().split('T')[0];
+	const sanctions = enriched.sanctions || [];
+
+	const authorities: string[] = [];
+	sanctions.forEach(s => s.authority.forEach(a => {
+		if (!authorities.includes(a)) authorities.push(a);
+	}));
+	const listedDates = sanctions.map(getListedDate).filter((date): date is string => !!date).sort();
+
+	return {
+		...entity,
+		properties,
+		datasets: entity.datasets || [],
+		referents: entity.referents || [],
+
+		name: properties.name?.[0] || entity.caption,
+		birthDate: properties.birthDate?.[0],
+		birthPlace: properties.birthPlace?.[0],
+		nationality: properties.nationality?.[0],
+		position: properties.position?.[0],
+		country: properties.country?.[0],
+		description: properties.description?.[0],
+
+		topics,
+		topicLabels: getTopicLabels(topics),
+		datasetLabels: (entity.datasets || []).map(getDatasetLabel),
+		hasSanctions: topics.includes('sanction'),
+		isPep: topics.includes('role.pep'),
+		isOligarch: topics.includes('role.oligarch'),
+
+		relationships: enriched.relationships || EMPTY_RELATIONSHIPS,
+		relationshipRecords: (enriched.relationshipRecords || []).map(record => ({
+			...record,
+			label: RELATIONSHIP_LABELS[record.type],
+			link: linkTo({ id: record.targetId, caption: record.targetCaption, schema: record.targetSchema }),
+			current: !record.endDate || record.endDate >= today.substring(0, record.endDate.length)
+		})),
+		relatedEntities: enriched.relatedEntities || [],
+
+		sanctions,
+		firstListed: listedDates[0],
+		sanctionAuthorities: authorities,
+
+		import: importInfo
+	};
+}
+
+// Values reach helpers as single strings or property lists
+function toList(value: unknown): string[] {
+	if (value === undefined || value === null || value === '') return [];
+	return (Array.isArray(value) ? value : [value]).filter(v => typeof v === 'string' || typeof v === 'number').map(String);
+}
+
+// Handlebars passes its options object as the last argument; drop it to get the real arguments
+function helperArgs(args: unknown[]): unknown[] {
+	return args.slice(0, -1);
+}
+
+/**
+ * Register the template helpers on a Handlebars environment. Helpers take precedence over
+ * context fields in Handlebars, so none may share a name with a TemplateContext field.
+ */
+export function registerTemplateHelpers(handlebars: typeof Handlebars) {
+	// {{countryName nationality}} → "Russia"; lists are joined
+	handlebars.registerHelper('countryName', (value: unknown) =>
+		toList(value).map(getCountryName).join(', '));
+
+	// {{topicNames topics}} → "Sanctioned, PEP (Politically Exposed Person)"
+	handlebars.registerHelper('topicNames', (value: unknown) =>
+		getTopicLabels(toList(value)).join(', '));
+
+	// {{datasetName "us_ofac_sdn"}} → "US OFAC SDN"; lists are joined
+	handlebars.registerHelper('datasetName', (value: unknown) =>
+		toList(value).map(getDatasetLabel).join(', '));
+
+	// {{formatDate birthDate}} → "March 1, 1975"; {{formatDate birthDate "year"}} → "1975"; "iso" keeps the date as stored
+	handlebars.registerHelper('formatDate', (...args: unknown[]) => {
+		const [value, format] = helperArgs(args);
+		const date = toList(value)[0];
+		if (!date) return '';
+		if (format === 'year') return date.substring(0, 4);
+		if (format === 'iso') return date;
+		return formatDate(date);
+	});
+
+	// {{wikilink birthPlace}} → "[[Moscow]]"; {{wikilink caption "alias"}} → "[[Caption|alias]]"; lists are joined
+	handlebars.registerHelper('wikilink', (...args: unknown[]) => {
+		const [value, alias] = helperArgs(args);
+		const aliasText = typeof alias === 'string' && alias ? `|${sanitizeWikilink(alias)}` : '';
+		return toList(value).map(v => `[[${sanitizeWikilink(v)}${aliasText}]]`).join(', ');
+	});
+
+	// {{join properties.alias}} → "A, B"; {{join properties.alias " / "}}
+	handlebars.registerHelper('join', (...args: unknown[]) => {
+		const [value, separator] = helperArgs(args);
+		return toList(value).join(typeof separator === 'string' ? separator : ', ');
+	});
+
+	// {{first properties.alias}}
+	handlebars.registerHelper('first', (value: unknown) =>
+		Array.isArray(value) ? value[0] : value);
+
+	// {{default description "No description"}}
+	handlebars.registerHelper('default', (...args: unknown[]) => {
+		const [value, fallback] = helperArgs(args);
+		const empty = value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+		return empty ? fallback : value;
+	});
+
+	// {{#if (eq schema "Person")}}
+	handlebars.registerHelper('eq', (...args: unknown[]) => {
+		const [a, b] = helperArgs(args);
+		return a === b;
+	});
+}
+
+// Isolated environment so the helpers don't leak into other plugins using Handlebars
+export const templateEngine = Handlebars.create();
+registerTemplateHelpers(templateEngine);
+
+/**
+ * Compile a note template with the helper library. Syntax errors are thrown here rather than
+ * on first render, which is when Handlebars would otherwise report them.
+ */
+export function compileTemplate(source: string): Handlebars.TemplateDelegate {
+	templateEngine.parse(source);
+	return templateEngine.compile(source, { noEscape: true });
+}
+
+/**
+ * One-line description of a template error. Handlebars parse errors span several lines
+ * with a pointer to the position; keep the location and what was expected.
+ */
+export function describeTemplateError(error: unknown): string {
+	const message = error instanceof Error ? error.message : String(error);
+	const lines = message.split('\n').map(line => line.trim()).filter(Boolean);
+	const expecting = lines.find(line => line.startsWith('Expecting'));
+	return expecting && expecting !== lines[0] ? `${lines[0]} ${expecting}` : lines[0] || 'Unknown error';
+}
+
+/**
+ * An entity with typical data for a schema, for checking that a template renders
+ */
+export function createSampleEntity(schema: string): EnrichedEntity {
+	const person = schema === 'Person';
+
+	return {
+		id: 'sample-entity',
+		caption: person ? 'Sample Person' : 'Sample Entity',
+		schema,
+		properties: {
+			name: [person ? 'Sample Person' : 'Sample Entity'],
+			alias: ['Sample Alias'],
+			birthDate: person ? ['1970-01-01'] : [],
+			incorporationDate: person ? [] : ['1999-12-31'],
+			nationality: person ? ['ru'] : [],
+			country: ['ru'],
+			topics: ['sanction'],
+			description: ['Sample description']
+		},
+		datasets: ['us_ofac_sdn'],
+		referents: [],
+		target: true,
+		first_seen: '2020-01-01T00:00:00',
+		last_seen: '2024-01-01T00:00:00',
+		relationships: { ...EMPTY_RELATIONSHIPS, ownedBy: ['Sample Owner'] },
+		relationshipRecords: [{
+			type: 'ownedBy',
+			schema: 'Ownership',
+			targetId: 'sample-owner',
+			targetCaption: 'Sample Owner',
+			targetSchema: 'Company',
+			targetTopics: [],
+			percentage: '50',
+			startDate: '2015-06-01',
+			datasets: ['us_ofac_sdn']
+		}],
+		relatedEntities: [{ id: 'sample-owner', caption: 'Sample Owner', schema: 'Company' }],
+		sanctions: [{
+			authority: ['Office of Foreign Assets Control'],
+			program: 'SAMPLE',
+			listingDate: '2022-03-15',
+			datasets: ['us_ofac_sdn']
+		}]
+	};
+}
@@ -39,13 +39,46 @@ export interface Facet {
 export interface SearchParams {
 	query: string;
 	schema?: string;
-	dataset?: string;
+	dataset?: string;     // Search scope (path parameter)
 	countries?: string[];
 	topics?: string[];
+	datasets?: string[];  // Facet filter: only entities from these datasets
 	limit?: number;
 	offset?: number;
 }
 
+// Query entity for the /match endpoint, in FollowTheMoney form
+export interface MatchQuery {
+	schema: string;
+	properties: Record<string, string[]>;
+}
+
+export interface MatchParams {
+	dataset?: string;
+	limit?: number;
+	threshold?: number;
+	algorithm?: string;
+}
+
+// A scored candidate returned by /match
+export interface MatchResult extends OpenSanctionsEntity {
+	score: number;
+	match: boolean;
+	features: Record<string, number>;
+}
+
+export interface MatchResponse {
+	responses: Record<string, {
+		status: number;
+		results: MatchResult[];
+		total: {
+			value: number;
+			relation: string;
+		};
+	}>;
+	limit: number;
+}
+
 export interface FieldConfigItem {
 	include: boolean;
 	wikilink: boolean;
@@ -62,12 +95,81 @@ export enum ImportMode {
 	QUICK = 'quick'
 }
 
+export interface RetrySettings {
+	maxRetries: number;         // Retries per request for 429/502/503/504
+	retryBudgetSeconds: number; // Maximum total wait across retries before failing
+}
+
+export interface CacheSettings {
+	enabled: boolean;
+	entityTtlHours: number;
+	adjacentTtlHours: number;
+	catalogTtlHours: number;
+	maxSizeMB: number;
+}
+
+export interface NetworkImportSettings {
+	maxDepth: number;     // Hops from the seed entity
+	maxEntities: number;  // Stop the crawl once this many entities are found
+	schemas: string[];    // Only follow these schemas (empty = all)
+	topics: string[];     // Only follow entities with one of these topics (empty = all)
+}
+
+// How a new note is named when its filename is taken by another note
+export enum CollisionStrategy {
+	ATTRIBUTES = 'attributes', // Append distinguishing attributes, e.g. "Sergey Ivanov (1975, Russia)"
+	COUNTER = 'counter'        // Append a number, e.g. "Sergey Ivanov (1)"
+}
+
+export interface FilenameSettings {
+	pattern: string;                        // Tokens: {caption} {schema} {id} {birthYear} {country}
+	schemaPatterns: Record<string, string>; // Per-schema overrides of the pattern
+	collisionStrategy: CollisionStrategy;
+}
+
+// Which entities a rule applies to. Empty lists match any entity; every non-empty list must match.
+export interface EntityRuleConditions {
+	schemas: string[];
+	topics: string[];
+	datasets: string[];
+	countries: string[];  // Country codes or names
+}
+
+export interface FolderRule extends EntityRuleConditions {
+	folder: string;       // Destination folder; may contain filename tokens and {dataset}
+}
+
+export interface TemplateRule extends EntityRuleConditions {
+	template: string;     // Path of the template note
+}
+
+// How requests are authenticated against the API
+export enum AuthScheme {
+	API_KEY = 'apiKey',   // Authorization: ApiKey <key> (api.opensanctions.org)
+	HEADER = 'header',    // Custom header name and value (e.g. a gateway token)
+	NONE = 'none'         // No authentication (e.g. an internal yente instance)
+}
+
+export interface ConnectionSettings {
+	baseUrl: string;
+	authScheme: AuthScheme;
+	authHeaderName: string;
+	authHeaderValue: string;
+	defaultDataset: string; // Dataset scope for /search and /match
+}
+
 export interface PluginSettings {
 	apiKey: string;
+	connectionSettings: ConnectionSettings;
 	defaultFolder: string;
+	filenameSettings: FilenameSettings;
+	folderRules: FolderRule[];            // First matching rule picks the folder; defaultFolder otherwise
 	overwriteExisting: boolean;
 	includeSourceUrl: boolean;
 	includeImportDate: boolean;
+	includeRelationshipDiagram: boolean; // Add a Mermaid diagram of the relationships to the note body
+	createStubNotes: boolean; // Create placeholder notes for related entities so wikilinks resolve
+	relationshipInlineFields: boolean; // Add Dataview inline fields below the relationships table
 	fieldConfigs: Record<string, FieldConfig>; // Keyed by schema
 	lastUsedFieldConfigs: Record<string, FieldConfig>; // NEW: Last used configs for Quick Import
 	quickImportSettings: {                              // NEW: Quick Import preferences
@@ -75,6 +177,16 @@ export interface PluginSettings {
 		rememberLastConfig: boolean;
 	};
 	templates: Record<string, string>; // Keyed by schema
+	templateRules: TemplateRule[];     // First matching rule picks the template; templates otherwise
+	screeningThreshold: number; // Minimum /match score counted as a match (0-1)
+	retrySettings: RetrySettings;
+	cacheSettings: CacheSettings;
+	networkImportSettings: NetworkImportSettings;
+}
+
+export interface ServerInfo {
+	version: string | null;
+	datasets: string[];
 }
 
 export interface EnrichedEntity extends OpenSanctionsEntity {
@@ -88,6 +200,64 @@ export interface EnrichedEntity extends OpenSanctionsEntity {
 		family: string[];
 		coConspirator: string[];
 	};
+	relatedEntities?: RelatedEntity[]; // The entities behind the relationship wikilinks
+	relationshipRecords?: RelationshipRecord[]; // One record per relationship entity, with its details
+	sanctions?: SanctionRecord[]; // Designations from the entity's Sanction entities
+}
+
+// One designation of the entity on a sanctions list
+export interface SanctionRecord {
+	authority: string[];
+	program?: string;
+	reason?: string;
+	listingDate?: string;
+	startDate?: string;
+	endDate?: string;
+	sourceUrl?: string;
+	datasets: string[];
+}
+
+// The relationship lists written to a note
+export type RelationshipType = 'directorOf' | 'ownerOf' | 'ownedBy' | 'employeeOf' | 'memberOf' | 'relatedTo' | 'family' | 'coConspirator';
+
+// Every kind of relationship read from FtM relationship entities, seen from one side
+export type RelationshipKind =
+	| 'directorOf' | 'hasDirector'
+	| 'ownerOf' | 'ownedBy'
+	| 'employeeOf' | 'employerOf'
+	| 'memberOf' | 'hasMember'
+	| 'holdsPosition' | 'positionHolder'
+	| 'family' | 'associate'
+	| 'predecessorOf' | 'successorOf'
+	| 'representativeOf' | 'representedBy'
+	| 'relatedTo'
+	| 'sanction' | 'identification' | 'address';
+
+// A relationship as seen from the imported entity, keeping the detail of the FtM relationship entity
+export interface RelationshipRecord {
+	type: RelationshipKind;
+	schema: string;          // Schema of the relationship entity, e.g. "Ownership"
+	targetId: string;
+	targetCaption: string;
+	targetSchema: string;
+	targetTopics: string[];  // Topics of the target entity when known, e.g. "sanction"
+	role?: string;
+	startDate?: string;
+	endDate?: string;
+	percentage?: string;
+	sharesCount?: string;
+	datasets: string[];
+}
+
+// Note frontmatter as parsed from or written to YAML, in key order
+export type Frontmatter = Record<string, unknown>;
+
+// An entity referenced by a relationship, with enough detail to create a stub note
+export interface RelatedEntity {
+	id: string;
+	caption: string;
+	schema: string;
+	properties?: Record<string, string[]>; // When known, so the stub gets the same filename as a full import
 }
 
 // Default field configurations for each schema
@@ -137,15 +307,50 @@ export const DEFAULT_FIELD_CONFIGS: Record<string, FieldConfig> = {
 
 export const DEFAULT_SETTINGS: PluginSettings = {
 	apiKey: '',
+	connectionSettings: {
+		baseUrl: 'https://api.opensanctions.org',
+		authScheme: AuthScheme.API_KEY,
+		authHeaderName: '',
+		authHeaderValue: '',
+		defaultDataset: 'default'
+	},
 	defaultFolder: 'OpenSanctions',
+	filenameSettings: {
+		pattern: '{caption}',
+		schemaPatterns: {},
+		collisionStrategy: CollisionStrategy.ATTRIBUTES
+	},
+	folderRules: [],
 	overwriteExisting: false,
 	includeSourceUrl: true,
 	includeImportDate: true,
+	includeRelationshipDiagram: false,
+	createStubNotes: false,
+	relationshipInlineFields: false,
 	fieldConfigs: DEFAULT_FIELD_CONFIGS,
 	lastUsedFieldConfigs: {},
 	quickImportSettings: {
 		enabled: true,
 		rememberLastConfig: true
 	},
-	templates: {}
+	templates: {},
+	templateRules: [],
+	screeningThreshold: 0.7,
+	retrySettings: {
+		maxRetries: 4,
+		retryBudgetSeconds: 60
+	},
+	cacheSettings: {
+		enabled: true,
+		entityTtlHours: 24,
+		adjacentTtlHours: 24,
+		catalogTtlHours: 24,
+		maxSizeMB: 20
+	},
+	networkImportSettings: {
+		maxDepth: 2,
+		maxEntities: 50,
+		schemas: ['Person', 'Company', 'Organization', 'LegalEntity'],
+		topics: []
+	}
 };
\ No newline at end of file
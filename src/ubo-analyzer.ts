@@ -0,0 +1,296 @@
+import { OpenSanctionsApiClient } from './api-client';
+import { OpenSanctionsEntity } from './types';
+import { escapeMermaidLabel, replaceMarkedSection, sanitizeWikilink } from './utils';
+import { extractRelationships } from './relationship-processor';
+
+export const UBO_START_MARKER = '<!-- opensanctions-ubo:start -->';
+export const UBO_END_MARKER = '<!-- opensanctions-ubo:end -->';
+
+// Schemas that can be owned and so may have owners of their own
+const OWNABLE_SCHEMAS = ['Company', 'Organization', 'LegalEntity', 'PublicBody'];
+
+export interface UboNode {
+	id: string;
+	caption: string;
+	schema: string;
+	sanctioned: boolean;
+}
+
+export interface OwnershipEdge {
+	ownerId: string;
+	assetId: string;
+	percentage: number | null; // null when the source gives no share
+}
+
+export interface UltimateOwner {
+	node: UboNode;
+	paths: string[][];                 // Entity IDs from the analyzed company up to the owner
+	effectivePercentage: number | null; // Sum over paths of the shares multiplied along each path
+	depthLimited: boolean;             // Reached the depth limit; there may be owners further up
+}
+
+export interface UboResult {
+	root: UboNode;
+	nodes: Map<string, UboNode>;
+	edges: OwnershipEdge[];
+	owners: UltimateOwner[];
+	cycles: string[][];                // Each cycle as entity IDs, first and last the same
+}
+
+/**
+ * Resolves ultimate beneficial owners by walking Ownership relationships upward from a company
+ */
+export class UboAnalyzer {
+	private apiClient: OpenSanctionsApiClient;
+	private maxDepth: number;
+	private nodes: Map<string, UboNode> = new Map();
+	private ownersOf: Map<string, OwnershipEdge[]> = new Map();
+
+	constructor(apiClient: OpenSanctionsApiClient, maxDepth = 6) {
+		this.apiClient = apiClient;
+		this.maxDepth = maxDepth;
+	}
+
+	async analyze(entityId: string, onProgress?: (visited: number) => void): Promise<UboResult> {
+		this.nodes.clear();
+		this.ownersOf.clear();
+
+		const rootEntity = await this.apiClient.getEntity(entityId);
+		const root = this.addNode(rootEntity);
+
+		const owners = new Map<string, UltimateOwner>();
+		const cycles: string[][] = [];
+
+		const walk = async (nodeId: string, path: string[], share: number | null) => {
+			onProgress?.(this.nodes.size);
+			const node = this.nodes.get(nodeId)!;
+			const edges = OWNABLE_SCHEMAS.includes(node.schema) ? await this.getOwners(nodeId) : [];
+			const depthLimited = path.length > this.maxDepth;
+
+			// Natural persons and entities without known owners end the chain
+			if (path.length > 1 && (edges.length === 0 || depthLimited)) {
+				const owner = owners.get(nodeId) || { node, paths: [], effectivePercentage: 0, depthLimited: false };
+
+				// The same chain is only counted once
+				if (owner.paths.some(existing => existing.join('|') === path.join('|'))) return;
+
+				owner.paths.push(path);
+				owner.effectivePercentage = owner.effectivePercentage === null || share === null
+					? null
+					: owner.effectivePercentage + share;
+				owner.depthLimited = owner.depthLimited || (depthLimited && edges.length > 0);
+				owners.set(nodeId, owner);
+				return;
+			}
+
+			if (depthLimited) return;
+
+			for (const edge of edges) {
+				if (path.includes(edge.ownerId)) {
+					cycles.push([...path.slice(path.indexOf(edge.ownerId)), edge.ownerId]);
+					continue;
+				}
+
+				const pathShare = share === null || edge.percentage === null ? null : share * edge.percentage / 100;
+				await walk(edge.ownerId, [...path, edge.ownerId], pathShare);
+			}
+		};
+
+		await walk(root.id, [root.id], 100);
+
+		const edges: OwnershipEdge[] = [];
+		this.ownersOf.forEach(ownerEdges => edges.push(...ownerEdges));
+		return {
+			root,
+			nodes: this.nodes,
+			edges,
+			owners: Array.from(owners.values()).sort((a, b) => (b.effectivePercentage ?? -1) - (a.effectivePercentage ?? -1)),
+			cycles: this.dedupeCycles(cycles)
+		};
+	}
+
+	/**
+	 * Current direct owners of an entity, from the Ownership relationships where it is the asset
+	 */
+	private async getOwners(entityId: string): Promise<OwnershipEdge[]> {
+		const cached = this.ownersOf.get(entityId);
+		if (cached) return cached;
+
+		// One edge per owner, even when several datasets publish the same ownership
+		const edges = new Map<string, OwnershipEdge>();
+		const adjacent = await this.apiClient.getAdjacent(entityId);
+		const today = new Date().toISOString().split('T')[0];
+
+		for (const rel of extractRelationships(entityId, adjacent)) {
+			if (rel.kind !== 'ownedBy' || !rel.targetId) continue;
+
+			// Former owners do not control the company
+			const endDate = (rel.relationship.properties?.endDate || [])[0];
+			if (typeof endDate === 'string' && endDate < today.substring(0, endDate.length)) continue;
+
+			if (!this.nodes.has(rel.targetId)) {
+				const owner = rel.target || await this.fetchEntity(rel.targetId);
+				if (!owner) continue;
+				this.addNode(owner);
+			}
+
+			// Keep the highest share any source gives
+			const percentage = parsePercentage(rel.relationship.properties?.percentage?.[0]);
+			const existing = edges.get(rel.targetId);
+			if (!existing || (percentage !== null && (existing.percentage === null || percentage > existing.percentage))) {
+				edges.set(rel.targetId, { ownerId: rel.targetId, assetId: entityId, percentage });
+			}
+		}
+
+		const ownerEdges = Array.from(edges.values());
+		this.ownersOf.set(entityId, ownerEdges);
+		return ownerEdges;
+	}
+
+	private async fetchEntity(entityId: string): Promise<OpenSanctionsEntity | null> {
+		try {
+			return await this.apiClient.getEntity(entityId);
+		} catch (error) {
+			console.warn('Could not resolve owner:', entityId, error);
+			return null;
+		}
+	}
+
+	private addNode(entity: OpenSanctionsEntity): UboNode {
+		const node = {
+			id: entity.id,
+			caption: entity.caption || entity.id,
+			schema: entity.schema,
+			sanctioned: (entity.properties?.topics || []).includes('sanction')
+		};
+		this.nodes.set(entity.id, node);
+		return node;
+	}
+
+	/**
+	 * The same cycle is found once from every entry point; keep one of each
+	 */
+	private dedupeCycles(cycles: string[][]): string[][] {
+		const seen = new Set<string>();
+		return cycles.filter(cycle => {
+			const key = [...new Set(cycle)].sort().join('|');
+			if (seen.has(key)) return false;
+			seen.add(key);
+			return true;
+		});
+	}
+}
+
+/**
+ * Parse a share value such as "51", "51%" or "25-50%". Ranges use their lower bound.
+ */
+export function parsePercentage(value: string | undefined): number | null {
+	if (typeof value !== 'string') return null;
+	const match = value.replace(',', '.').match(/\d+(\.\d+)?/);
+	if (!match) return null;
+
+	const percentage = parseFloat(match[0]);
+	return percentage >= 0 && percentage <= 100 ? percentage : null;
+}
+
+function formatPercentage(value: number | null): string {
+	if (value === null) return 'unknown';
+	return `${Number(value.toFixed(2))}%`;
+}
+
+/**
+ * Render the beneficial ownership section written into a company note.
+ * `linkTo` gives the wikilink for an entity's note; by default its caption is linked.
+ */
+export function renderUboSection(result: UboResult, linkTo?: (node: UboNode) => string): string {
+	const lines: string[] = [UBO_START_MARKER, '## Beneficial Ownership', ''];
+	const link = (id: string) => {
+		const node = result.nodes.get(id);
+		return node && linkTo ? linkTo(node) : `[[${sanitizeWikilink(node?.caption || id)}]]`;
+	};
+	// Aliased links need their pipe escaped inside a table
+	const cellLink = (id: string) => link(id).replace(/\|/g, '\\|');
+
+	const sanctioned = Array.from(result.nodes.values()).filter(node => node.sanctioned && node.id !== result.root.id);
+	if (sanctioned.length > 0) {
+		lines.push(`> [!WARNING] Sanctioned in the ownership chain`);
+		sanctioned.forEach(node => lines.push(`> - ${link(node.id)} (${node.schema})`));
+		lines.push('');
+	}
+
+	if (result.cycles.length > 0) {
+		lines.push('> [!WARNING] Circular ownership');
+		result.cycles.forEach(cycle => lines.push(`> - ${cycle.map(link).join(' → ')}`));
+		lines.push('');
+	}
+
+	if (result.owners.length === 0) {
+		lines.push('No owners found in OpenSanctions.');
+	} else {
+		lines.push('| Ultimate Owner | Type | Effective Share | Via | Flags |');
+		lines.push('|---|---|---|---|---|');
+
+		for (const owner of result.owners) {
+			const via = owner.paths
+				.map(path => path.slice(1, -1).map(cellLink).join(' → ') || 'direct')
+				.join('<br>');
+			const flags: string[] = [];
+			if (owner.node.sanctioned) flags.push('**Sanctioned**');
+			if (owner.depthLimited) flags.push('Depth limit reached');
+			if (owner.node.schema !== 'Person') flags.push('Not a natural person');
+
+			lines.push(`| ${cellLink(owner.node.id)} | ${owner.node.schema} | ${formatPercentage(owner.effectivePercentage)} | ${via} | ${flags.join(', ')} |`);
+		}
+
+		lines.push('');
+		lines.push(...renderUboMermaid(result));
+	}
+
+	const timestamp = new Date().toISOString().replace('T', ' ').substring(0, 16);
+	lines.push('');
+	lines.push(`*Ownership analyzed ${timestamp} UTC. Shares are multiplied along each path and summed across paths.*`);
+	lines.push(UBO_END_MARKER);
+
+	return lines.join('\n');
+}
+
+function renderUboMermaid(result: UboResult): string[] {
+	const ids = new Map<string, string>();
+	const nodeId = (id: string) => {
+		if (!ids.has(id)) ids.set(id, `n${ids.size}`);
+		return ids.get(id)!;
+	};
+
+	const lines = ['```mermaid', 'graph BT'];
+	nodeId(result.root.id);
+
+	for (const node of result.nodes.values()) {
+		lines.push(`    ${nodeId(node.id)}["${escapeMermaidLabel(node.caption)}"]`);
+	}
+
+	for (const edge of result.edges) {
+		const share = edge.percentage === null ? '' : `|${formatPercentage(edge.percentage)}|`;
+		lines.push(`    ${nodeId(edge.ownerId)} -->${share} ${nodeId(edge.assetId)}`);
+	}
+
+	const sanctionedIds = Array.from(result.nodes.values()).filter(node => node.sanctioned).map(node => nodeId(node.id));
+	lines.push('    classDef sanctioned fill:#f8d7da,stroke:#c62828');
+	if (sanctionedIds.length > 0) {
+		lines.push(`    class ${sanctionedIds.join(',')} sanctioned`);
+	}
+	lines.push('```');
+
+	return lines;
+}
+
+/**
+ * Replace the UBO section in note content, or append one if there is none yet
+ */
+export function upsertUboSection(content: string, section: string): string {
+	const replaced = replaceMarkedSection(content, UBO_START_MARKER, UBO_END_MARKER, section);
+	if (replaced !== null) {
+		return replaced;
+	}
+
+	return `${content.replace(/\s*$/, '')}\n\n${section}\n`;
+}
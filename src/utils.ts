@@ -2,6 +2,9 @@
  * Utility functions for the OpenSanctions plugin
  */
 
+import { parseYaml, stringifyYaml } from 'obsidian';
+import { Frontmatter } from './types';
+
 // Country code to name mapping for common countries
 export const COUNTRY_NAMES: Record<string, string> = {
 	'ru': 'Russia',
@@ -110,12 +113,29 @@ export function getCountryName(countryCode: string | undefined): string {
 	return COUNTRY_NAMES[countryCode.toLowerCase()] || countryCode.toUpperCase();
 }
 
+/**
+ * Convert a country name (or code) back to its lowercase country code
+ */
+export function getCountryCode(country: string | undefined): string {
+	if (!country) return '';
+
+	const normalized = country.trim().toLowerCase();
+	if (COUNTRY_NAMES[normalized]) return normalized;
+
+	for (const [code, name] of Object.entries(COUNTRY_NAMES)) {
+		if (name.toLowerCase() === normalized) return code;
+	}
+
+	return country.trim();
+}
+
 /**
  * Sanitize a string for use as a filename
  */
 export function sanitizeFilename(filename: string): string {
 	return filename
 		.replace(/[<>:"/\\|?*]/g, '') // Remove invalid chars
+		.replace(/[\[\]#^]/g, '')      // Remove chars that break wikilinks to the note
 		.replace(/\s+/g, ' ')         // Normalize whitespace
 		.trim()
 		.substring(0, 200);           // Reasonable length limit
@@ -131,6 +151,17 @@ export function sanitizeWikilink(value: string): string {
 		.trim();
 }
 
+/**
+ * Escape text for use inside a quoted Mermaid node or edge label
+ */
+export function escapeMermaidLabel(value: string): string {
+	return value
+		.replace(/"/g, '#quot;')
+		.replace(/\|/g, '#124;')
+		.replace(/\r?\n/g, ' ')
+		.trim();
+}
+
 /**
  * Format a date string for display
  */
@@ -331,4 +362,90 @@ export function validateEntityForSchema(entity: any, schema: string): string[] {
 	}
 
 	return errors;
-}
\ No newline at end of file
+}
+/**
+ * Split note content into its raw YAML frontmatter (without delimiters) and body
+ */
+export function splitFrontmatter(content: string): { frontmatter: string | null; body: string } {
+	const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+	if (!match) {
+		return { frontmatter: null, body: content };
+	}
+
+	return {
+		frontmatter: match[1],
+		body: content.slice(match[0].length)
+	};
+}
+
+/**
+ * Parse raw YAML frontmatter into data. Throws if the YAML is invalid or not a mapping.
+ */
+export function parseFrontmatter(frontmatter: string | null): Frontmatter {
+	if (!frontmatter || !frontmatter.trim()) return {};
+
+	let data: unknown;
+	try {
+		data = parseYaml(frontmatter);
+	} catch (error) {
+		throw new Error(`Invalid YAML frontmatter: ${error.message}`);
+	}
+
+	if (data === null || data === undefined) return {};
+	if (typeof data !== 'object' || Array.isArray(data)) {
+		throw new Error('Frontmatter is not a list of keys');
+	}
+	return data as Frontmatter;
+}
+
+// A top-level key line, e.g. `caption: Acme` or `"odd key": 1`
+const TOP_LEVEL_KEY = /^(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^\s#'"\-?][^:]*?))\s*:(?:\s|$)/;
+
+/**
+ * Split raw YAML frontmatter into the text of each top-level key, so keys can be replaced
+ * without reformatting the rest. Comments at the top level are separate entries with a null key;
+ * indented, list and blank lines belong to the entry above them.
+ */
+export function splitFrontmatterKeys(frontmatter: string): { key: string | null; text: string }[] {
+	const entries: { key: string | null; lines: string[] }[] = [];
+
+	for (const line of frontmatter.split(/\r?\n/)) {
+		const match = line.match(TOP_LEVEL_KEY);
+		// Blank lines stay with the key above too, as they may sit inside a multi-line value
+		const continues = (/^[\s-]/.test(line) || line.trim() === '') && entries.length > 0;
+
+		if (match) {
+			const key = match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1')
+				: match[2] !== undefined ? match[2].replace(/''/g, "'")
+				: match[3];
+			entries.push({ key, lines: [line] });
+		} else if (continues) {
+			entries[entries.length - 1].lines.push(line);
+		} else {
+			entries.push({ key: null, lines: [line] });
+		}
+	}
+
+	return entries.map(entry => ({ key: entry.key, text: entry.lines.join('\n') }));
+}
+
+/**
+ * Serialise frontmatter data as a YAML block with its --- delimiters
+ */
+export function formatFrontmatter(frontmatter: Frontmatter): string {
+	return `---\n${stringifyYaml(frontmatter)}---`;
+}
+
+/**
+ * Replace the text between two marker lines (inclusive).
+ * Returns null if the markers are not present.
+ */
+export function replaceMarkedSection(text: string, startMarker: string, endMarker: string, replacement: string): string | null {
+	const start = text.indexOf(startMarker);
+	if (start === -1) return null;
+
+	const end = text.indexOf(endMarker, start + startMarker.length);
+	if (end === -1) return null;
+
+	return text.slice(0, start) + replacement + text.slice(end + endMarker.length);
+}